@@ -1,4 +1,6 @@
 import { ExecutorFn } from "@/execution/executor.ts";
+import { JobLogLevel } from "@/execution/job-state.ts";
+import { JobLogger } from "@/execution/logger.ts";
 import { OpenQueueClient } from "@/management/client.ts";
 import {
    Workflow,
@@ -43,6 +45,19 @@ export type CreateClientOptions = {
     * when adding a job.
     */
    defaultJobOptions?: InpSimplifiedDefaultJobOptions;
+   /**
+    * Secret used to sign approval tokens, required when using `ctx.waitForApproval()`
+    */
+   secret?: string;
+   /**
+    * Receives the logs of jobs as they're flushed, besides the BullMQ job log. See `consoleLogger`, `jsonLogger` and
+    * `pinoLogger()`.
+    */
+   logger?: JobLogger;
+   /**
+    * The least severe level of job logs to keep, defaults to "info"
+    */
+   logLevel?: JobLogLevel;
 };
 
 export class OpenQueue {
@@ -59,7 +74,10 @@ export class OpenQueue {
         {
            redisUrl: options.redisUrl,
            prefix: options.prefix,
-           defaultJobOptions: parsedJobOptions
+           defaultJobOptions: parsedJobOptions,
+           secret: options.secret,
+           logger: options.logger,
+           logLevel: options.logLevel
         },
         flows
       );
@@ -99,7 +117,10 @@ export class OpenQueue {
         {
            redisUrl: options.redisUrl,
            prefix: options.prefix,
-           defaultJobOptions: parsedJobOptions
+           defaultJobOptions: parsedJobOptions,
+           secret: options.secret,
+           logger: options.logger,
+           logLevel: options.logLevel
         },
         converted
       );
@@ -1,13 +1,32 @@
 import {
+   Approval,
    ExecuteStepResult,
-   StepExecutor
+   MapItemResult,
+   StepExecutor,
+   StepRetryOptions
 } from "@/execution/executor.ts";
+import { RateLimitedError } from "@/execution/errors.ts";
+import { JobLogLevel } from "@/execution/job-state.ts";
 import {
-   JobLog,
-   JobLogLevel
-} from "@/execution/job-state.ts";
+   capLogEntry,
+   formatLogEntry,
+   isLogLevelEnabled,
+   JobLogEntry,
+   stepLogScope
+} from "@/execution/logger.ts";
 import { Workflow } from "@/management/workflow.ts";
 import { ExecutorFn } from "@/execution/executor.ts";
+import {
+   DelaySchema,
+   DurationSchema,
+   InpDuration,
+   InpRepeatInterval,
+   InpJobOptions,
+   InpTimestamp,
+   RepeatIntervalSchema,
+   TimestampSchema
+} from "@/utils/schema.ts";
+import { randomUUID } from "node:crypto";
 import { z } from "zod";
 
 // Type helper to extract the return type of a workflow
@@ -22,14 +41,33 @@ export type ExecutionContextOptions = {
 type RunOptions<Fn extends () => Promise<any>> = {
    id: string;
    run: Fn;
+   /**
+    * Undoes the step. Called with the step's result when the job fails for good (after its last attempt, or on
+    * an unrecoverable error), in reverse order of all completed steps.
+    */
+   rollback?: (result: Awaited<ReturnType<Fn>>) => Promise<any>;
+   /**
+    * Retry the step on its own, without failing (and retrying) the whole job
+    */
+   retry?: StepRetryOptions;
+   /**
+    * Fail the step with a `StepTimeoutError` if it runs for longer than this, i.e. "30s"
+    */
+   timeout?: InpDuration;
+};
+type ParallelResults<Steps extends readonly RunOptions<() => Promise<any>>[]> = {
+   -readonly [K in keyof Steps]: ExecuteStepResult<Awaited<ReturnType<Steps[K]["run"]>>>
 };
 type SleepOptions = {
    id: string;
-   duration: number;
+   /**
+    * For how long to sleep, in ms or as a string like "1d" or "2h30m"
+    */
+   duration: InpDuration;
 };
 type SleepUntilOptions = {
    id: string;
-   timestamp: number;
+   timestamp: InpTimestamp;
 };
 type InvokeOptions<T = any> = {
    id: string;
@@ -40,15 +78,74 @@ type InvokeWorkflowOptions<W extends Workflow<any, any, any>> = {
    id: string;
    data: z.input<W["__schema"]>;
 };
+type SpawnOptions<W extends Workflow<any, any, any>> = {
+   id: string;
+   data: z.input<W["__schema"]>;
+   jobOptions?: Omit<InpJobOptions, "uniqueJobId">;
+};
+type WaitForEventOptions = {
+   id: string;
+   /**
+    * The name of the event to wait for, as given to `client.sendEvent()`
+    */
+   event: string;
+   /**
+    * Only resume on events whose payload has these values. Keys are dot separated paths into the payload,
+    * i.e. `{ "user.id": data.userId }`
+    */
+   match?: Record<string, unknown>;
+   /**
+    * For how long to wait for the event, i.e. "1d". If no event arrives in time, the step resolves with `null`.
+    */
+   timeout: InpDuration;
+};
+type WaitForApprovalOptions<S extends z.ZodTypeAny> = {
+   id: string;
+   /**
+    * For how long the approval can be resolved, i.e. "2d". Once it times out, `wait()` resolves with `null`.
+    */
+   timeout: InpDuration;
+   /**
+    * The payload given to `client.resolveApproval()` is validated against this schema
+    */
+   payloadSchema: S;
+};
+type MapOptions<W extends Workflow<any, any, any>> = {
+   id: string;
+   /**
+    * The workflow to create a job in for every item
+    */
+   workflow: W;
+   items: z.input<W["__schema"]>[];
+   /**
+    * How many of the jobs may be unfinished at once, a positive integer. Defaults to 10.
+    */
+   concurrency?: number;
+};
 type RepeatOptions<Fn extends () => Promise<any>> = {
    id: string;
    limit: number;
-   every?: number;
+   /**
+    * Wait between attempts, i.e. "30s", or let the wait grow, i.e. { strategy: "exponential", base: "1s", max: "5m" }
+    */
+   every?: InpRepeatInterval;
+   /**
+    * Stop repeating after this long, i.e. "1h", or at this date, even if the limit isn't reached
+    */
+   until?: InpDuration | Date;
+   /**
+    * Fail the step with a `StepTimeoutError` if a single run takes longer than this, i.e. "30s"
+    */
+   timeout?: InpDuration;
    run: Fn;
 };
 
 export class ExecutionContext {
-   public __logs: JobLog[] = [];
+   /**
+    * Log entries which are not flushed yet
+    */
+   public __logs: JobLogEntry[] = [];
+   public __pendingFlush: Promise<unknown> = Promise.resolve();
    public __stepExecutor: StepExecutor | null = null;
 
    constructor (public __options: ExecutionContextOptions) {
@@ -61,17 +158,42 @@ export class ExecutionContext {
       this.checkIsReady();
       const executed = await this.__stepExecutor!.executeRun<T, ExecuteStepResult<T>>({
          id: options.id,
-         run: options.run as Fn
+         run: options.run as Fn,
+         rollback: options.rollback,
+         retry: options.retry,
+         timeout: DurationSchema.optional()
+           .parse(options.timeout)
       });
 
       return executed as ExecuteStepResult<T>;
    }
 
+   /**
+    * Runs independent run steps at the same time, resolving with their results in the same order
+    */
+   async parallel<const Steps extends readonly RunOptions<() => Promise<any>>[]> (steps: Steps): Promise<ParallelResults<Steps>> {
+      this.checkIsReady();
+      const executed = await this.__stepExecutor!.executeParallel({
+         steps: steps.map(step => (
+           {
+              id: step.id,
+              run: step.run,
+              rollback: step.rollback,
+              retry: step.retry,
+              timeout: DurationSchema.optional()
+                .parse(step.timeout)
+           }
+         ))
+      });
+
+      return executed as ParallelResults<Steps>;
+   }
+
    sleep (options: SleepOptions) {
       this.checkIsReady();
       return this.__stepExecutor?.executeSleep({
          id: options.id,
-         duration: options.duration
+         duration: DurationSchema.parse(options.duration)
       });
    }
 
@@ -79,7 +201,7 @@ export class ExecutionContext {
       this.checkIsReady();
       return this.__stepExecutor!.executeSleepUntil({
          id: options.id,
-         timestamp: options.timestamp
+         timestamp: TimestampSchema.parse(options.timestamp)
       });
    }
 
@@ -91,12 +213,62 @@ export class ExecutionContext {
       const result = await this.__stepExecutor!.executeRepeat<T>({
          id: options.id,
          limit: options.limit,
-         every: options.every,
+         every: RepeatIntervalSchema.optional()
+           .parse(options.every),
+         until: DelaySchema.optional()
+           .parse(options.until),
+         timeout: DurationSchema.optional()
+           .parse(options.timeout),
          run: options.run
       });
       return result.result;
    }
 
+   async waitForEvent<T = any> (options: WaitForEventOptions): Promise<T | null> {
+      this.checkIsReady();
+      const result = await this.__stepExecutor!.executeWaitForEvent<T>({
+         id: options.id,
+         event: options.event,
+         match: options.match,
+         timeout: DurationSchema.parse(options.timeout)
+      });
+      return result.result;
+   }
+
+   /**
+    * Fans out a job per item to another workflow, and resumes once all of them have finished with their results
+    * in the same order as the items. A failed job doesn't fail the step, it's reported in its result instead.
+    */
+   async map<W extends Workflow<any, any, any>> (options: MapOptions<W>): Promise<MapItemResult<ExtractWorkflowReturn<W>>[]> {
+      this.checkIsReady();
+      const result = await this.__stepExecutor!.executeMap<z.input<W["__schema"]>, ExtractWorkflowReturn<W>>({
+         id: options.id,
+         workflow: options.workflow.__id,
+         items: options.items,
+         concurrency: z.number()
+           .int()
+           .positive()
+           .default(10)
+           .parse(options.concurrency)
+      });
+      return result.result;
+   }
+
+   /**
+    * Creates an approval with a signed one-time token, to be resolved through `client.resolveApproval()` (or the
+    * approval routes). Send the token out in a following step, then `await approval.wait()` to delay the job until
+    * it is resolved.
+    */
+   async waitForApproval<S extends z.ZodTypeAny> (options: WaitForApprovalOptions<S>): Promise<Approval<z.infer<S>>> {
+      this.checkIsReady();
+      const result = await this.__stepExecutor!.executeWaitForApproval<z.infer<S>>({
+         id: options.id,
+         timeout: DurationSchema.parse(options.timeout),
+         payloadSchema: options.payloadSchema
+      });
+      return result.result;
+   }
+
    // Basic invoke method (backward compatibility)
    async invoke<T = any, R = any> (options: InvokeOptions<T>): Promise<ExecuteStepResult<R>> {
       this.checkIsReady();
@@ -135,6 +307,23 @@ export class ExecutionContext {
       return this.invokeWorkflow(workflow, options);
    }
 
+   /**
+    * Creates a job in another workflow without waiting for it to finish, resolving with the created job's id
+    */
+   async spawn<W extends Workflow<any, any, any>> (
+     workflow: W,
+     options: SpawnOptions<W>
+   ): Promise<{ jobId: string }> {
+      this.checkIsReady();
+      const result = await this.__stepExecutor!.executeSpawn({
+         id: options.id,
+         workflow: workflow.__id,
+         data: options.data,
+         jobOptions: options.jobOptions
+      });
+      return result.result;
+   }
+
    // Type-safe helper to get workflow from current client
    getWorkflow<WId extends string>(workflowId: WId): Workflow<any, any, any> | null {
       const client = this.__options.workflow.__client;
@@ -161,6 +350,80 @@ export class ExecutionContext {
       return this.invokeWorkflow(workflow, options);
    }
 
+   /**
+    * Whether this job runs the code of the given change, i.e. `if (ctx.patched("new-pricing")) { ... }`. Jobs that
+    * already ran past this point before the change was deployed keep getting false.
+    */
+   patched (changeId: string) {
+      this.checkIsReady();
+      return this.__stepExecutor!.patched(changeId);
+   }
+
+   /**
+    * Signals that a downstream service is rate limiting, i.e. `ctx.rateLimited("30s")` after a 429. The whole workflow
+    * pauses for the duration, and this job (or step) is run again after, without using up an attempt.
+    */
+   rateLimited (duration: InpDuration | Date): never {
+      throw new RateLimitedError(duration);
+   }
+
+   /**
+    * Reports the job's progress, i.e. `ctx.progress({ done: 4000, total: 10000 }, "Importing users")`. Listen to it
+    * with `client.onProgress()`.
+    */
+   async progress (
+     value: number | Record<string, any>,
+     message?: string
+   ) {
+      this.checkIsReady();
+      await this.__stepExecutor!.__reportProgress({
+         value,
+         message: message ?? null
+      });
+   }
+
+   /**
+    * The current time (ms), recorded on the first run so replays return the same time. Inside a step's `run` it's
+    * not recorded, as the step's result is.
+    */
+   now (): number {
+      this.checkIsReady();
+      return this.__stepExecutor!.jobExecutor.state.record(
+        "now",
+        () => Date.now()
+      );
+   }
+
+   /**
+    * A random number between 0 & 1, recorded on the first run so replays return the same number
+    */
+   random (): number {
+      this.checkIsReady();
+      return this.__stepExecutor!.jobExecutor.state.record(
+        "random",
+        () => Math.random()
+      );
+   }
+
+   /**
+    * A random v4 uuid, recorded on the first run so replays return the same uuid, i.e. for idempotency keys
+    */
+   uuid (): string {
+      this.checkIsReady();
+      return this.__stepExecutor!.jobExecutor.state.record(
+        "uuid",
+        () => randomUUID()
+      );
+   }
+
+   /**
+    * Version of the workflow this job was created with
+    */
+   getVersion (): number {
+      this.checkIsReady();
+      return this.__stepExecutor!.jobExecutor.state.data!.__version;
+   }
+
    setStepExecutor (executor: StepExecutor) {
       this.__stepExecutor = executor;
    }
@@ -176,11 +439,90 @@ export class ExecutionContext {
      message: string,
      meta = {}
    ) {
-      this.__logs.push({
+      const state = this.__stepExecutor?.jobExecutor.state;
+      // Code outside of steps runs again on every resume, its logs were already written the first time. Warnings &
+      // errors are kept, as they can be about the replay itself.
+      if (
+        state?.data
+        && !stepLogScope.getStore()
+        && state.__seenSteps.length < state.data.__stepOrder.length
+        && !isLogLevelEnabled(
+          level,
+          "warn"
+        )
+      ) {
+         return;
+      }
+
+      this.__log(
+        level,
+        message,
+        meta
+      );
+   }
+
+   /**
+    * Logs for OpenQueue itself, which are never skipped on replays
+    */
+   __log (
+     level: JobLogLevel,
+     message: string,
+     meta = {}
+   ) {
+      const client = this.__options.workflow.__client;
+      if (!this.__stepExecutor || !isLogLevelEnabled(
+        level,
+        client?.__options.logLevel ?? "info"
+      )) {
+         return;
+      }
+
+      const { job } = this.__stepExecutor.jobExecutor;
+      const scope = stepLogScope.getStore();
+      this.__logs.push(capLogEntry({
          ts: Date.now(),
          level,
          message,
-         metadata: meta || {}
+         metadata: meta || {},
+         workflow: this.__options.workflow.__id,
+         jobId: job.__bullJob.id!,
+         stepId: scope?.stepId ?? null,
+         attempt: scope?.attempt ?? job.__bullJob.attemptsMade + 1
+      }));
+   }
+
+   /**
+    * Writes the pending log entries to the BullMQ job log and the client's logger. Called at step boundaries, so a
+    * crash loses at most the logs of the step that was running.
+    */
+   async __flushLogs () {
+      const entries = this.__logs.splice(0);
+      if (!entries.length || !this.__stepExecutor) {
+         return;
+      }
+
+      const { job } = this.__stepExecutor.jobExecutor;
+      const logger = this.__options.workflow.__client?.__options.logger;
+      const flush = this.__pendingFlush.then(async () => {
+         for (const entry of entries) {
+            await job.__bullJob.log(formatLogEntry(entry));
+
+            try {
+               await logger?.log(entry);
+            }
+            catch (e) {
+               // A broken log pipeline must not fail the job, so it's only noted in the job log
+               await job.__bullJob.log(formatLogEntry({
+                  ...entry,
+                  level: "error",
+                  message: `Logger failed to write the entry above, error: ${ e?.toString() ?? "N/A" }`,
+                  metadata: {}
+               }));
+            }
+         }
       });
+      this.__pendingFlush = flush.catch(() => undefined);
+
+      return flush;
    }
 }
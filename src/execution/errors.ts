@@ -0,0 +1,114 @@
+import {
+   DelaySchema,
+   InpDuration,
+   RetryAfterSchema
+} from "@/utils/schema.ts";
+import { UnrecoverableError } from "bullmq";
+
+/**
+ * Thrown when a step runs for longer than its `timeout`
+ */
+export class StepTimeoutError extends Error {
+   constructor (
+     public stepId: string,
+     public timeout: number
+   ) {
+      super(`Step ${ stepId } timed out after ${ timeout }ms`);
+      this.name = "StepTimeoutError";
+   }
+}
+
+/**
+ * Thrown when a job runs for longer than its workflow's `maxDuration`, counting from when the job first started.
+ * The job fails right away, without retrying.
+ */
+export class WorkflowTimeoutError extends UnrecoverableError {
+   constructor (
+     public workflowId: string,
+     public maxDuration: number
+   ) {
+      super(`Workflow ${ workflowId } exceeded its max duration of ${ maxDuration }ms`);
+      this.name = "WorkflowTimeoutError";
+   }
+}
+
+/**
+ * Thrown at the next step boundary of a job that was cancelled through `client.cancel()`
+ */
+export class JobCancelledError extends UnrecoverableError {
+   constructor (
+     public jobId: string,
+     public reason?: string | null
+   ) {
+      super(`Job ${ jobId } was cancelled${ reason ? `: ${ reason }` : "" }`);
+      this.name = "JobCancelledError";
+   }
+}
+
+/**
+ * Thrown when a job's steps don't replay the way they first ran, i.e. a step id is used twice in one run, a step
+ * changed its type, or (in strict mode) the steps run in a different order. The job fails right away, as its stored
+ * step states can no longer be trusted.
+ */
+export class NonDeterminismError extends UnrecoverableError {
+   constructor (
+     public stepId: string,
+     message: string
+   ) {
+      super(message);
+      this.name = "NonDeterminismError";
+   }
+}
+
+/**
+ * Throw from a step or handler to fail the job right away, without retrying the step or the job
+ */
+export class NonRetriableError extends UnrecoverableError {
+   constructor (
+     message: string,
+     options?: ErrorOptions
+   ) {
+      super(message);
+      this.name = "NonRetriableError";
+      if (options?.cause !== undefined) {
+         this.cause = options.cause;
+      }
+   }
+}
+
+/**
+ * Throw from a step to run it again at an exact time, instead of after its backoff. Takes a duration, a date, or the
+ * value of a `Retry-After` header as is (in seconds or an HTTP date), an invalid one retries right away. The retry
+ * doesn't use up an attempt. Thrown outside of a step, the whole job is retried at that time.
+ */
+export class RetryAfterError extends Error {
+   public retryAt: number;
+
+   constructor (
+     retryAfter: InpDuration | Date | string | null,
+     message?: string
+   ) {
+      const delay = RetryAfterSchema.parse(retryAfter);
+      super(message ?? `Retrying in ${ delay }ms`);
+      this.name = "RetryAfterError";
+      this.retryAt = Date.now() + delay;
+   }
+}
+
+/**
+ * Throw from a step or handler when a downstream service is rate limiting, i.e. it answered with a 429. The whole
+ * workflow pauses for the duration, and the job is run again after, without using up an attempt.
+ */
+export class RateLimitedError extends Error {
+   public duration: number;
+
+   constructor (
+     duration: InpDuration | Date,
+     message?: string
+   ) {
+      const parsedDuration = DelaySchema.parse(duration);
+      super(message ?? `Rate limited for ${ parsedDuration }ms`);
+      this.name = "RateLimitedError";
+      this.duration = parsedDuration;
+   }
+}
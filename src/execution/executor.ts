@@ -1,14 +1,57 @@
 import { ExecutionContext } from "@/execution/ctx.ts";
 import {
+   JobCancelledError,
+   NonDeterminismError,
+   RateLimitedError,
+   RetryAfterError,
+   StepTimeoutError,
+   WorkflowTimeoutError
+} from "@/execution/errors.ts";
+import {
+   JobState,
    JobStateManager,
    StepStateManager
 } from "@/execution/job-state.ts";
-import { ActiveJob } from "@/execution/job.ts";
+import {
+   ActiveJob,
+   WorkflowProgress
+} from "@/execution/job.ts";
+import { stepLogScope } from "@/execution/logger.ts";
+import { EventWaiter } from "@/management/events.ts";
+import { MapResultStore } from "@/management/map-results.ts";
 import { Workflow } from "@/management/workflow.ts";
+import {
+   BackoffStrategies,
+   computeBackoffDelay,
+   computeRepeatDelay,
+   DurationSchema,
+   InpDuration,
+   InpJobOptions,
+   RepeatInterval,
+   SerializedError,
+   serializeError,
+   sleep,
+   StepType
+} from "@/utils";
 import {
    DelayedError,
-   UnrecoverableError
+   UnrecoverableError,
+   Worker as BullWorker
 } from "bullmq";
+import { z } from "zod";
+
+/**
+ * Step retries with a delay up to this (ms) are done in-process, longer ones delay the job
+ */
+const INLINE_RETRY_MAX_DELAY = 5_000;
+/**
+ * Invoked jobs resume their invoker once they finish, this (ms) is only a safety net for a resume that got lost
+ */
+const INVOKED_JOB_RECHECK_INTERVAL = 60_000;
+/**
+ * Only this many of the most recent falsy results of a repeat step are kept in its history
+ */
+const MAX_REPEAT_HISTORY = 50;
 
 type ActiveJobExecutorOptions = {
    job: ActiveJob;
@@ -21,6 +64,45 @@ export type ExecutorFnParams<T> = {
    data: T;
 };
 export type ExecutorFn<T> = (params: ExecutorFnParams<T>) => Promise<any>;
+export type FailureHandlerParams<T> = ExecutorFnParams<T> & {
+   /**
+    * The error that failed the job, serialized as it's handled in a job of its own
+    */
+   error: SerializedError;
+   /**
+    * State of the failed job, including all of its steps
+    */
+   state: JobState;
+   attempts: number;
+   failedJobId: string;
+};
+export type FailureHandlerFn<T> = (params: FailureHandlerParams<T>) => Promise<any>;
+/**
+ * Data of the job running a workflow's `onFailure` handler
+ */
+export type FailureJobSource = {
+   failedJobId: string;
+   error: SerializedError;
+   attempts: number;
+   state: JobState;
+};
+
+/**
+ * Thrown when replaying a job that was interrupted while rolling back, as soon as the handler reaches a step that
+ * never completed. Everything up to that point has been replayed, so the rollbacks can be continued.
+ */
+class RollbackReplayStop extends Error {
+}
+
+/**
+ * Thrown by a step of a parallel group that has to wait before its next attempt. The group delays the job once all
+ * of its steps settled, for the earliest retry.
+ */
+class ParallelStepDelay extends Error {
+   constructor (public delay: number) {
+      super(`Step is retried in ${ delay }ms`);
+   }
+}
 
 export class ActiveJobExecutor {
    public workflow: Workflow<any, any, any>;
@@ -59,110 +141,146 @@ export class ActiveJobExecutor {
       
       try {
          //> Starting execution
-         ctx.log(
+         ctx.__log(
            "debug",
            `Started execution of workflow ${ this.workflow.__id }`
          );
+         if (!state.data?.__metrics.startedAt) {
+            const skipReason = await this.workflow.__checkScheduledRun(job.__bullJob);
+            if (skipReason) {
+               ctx.__log(
+                 "info",
+                 `Skipping scheduled run of workflow ${ this.workflow.__id }, reason: ${ skipReason }`
+               );
+               state.complete();
+               await this.workflow.__clearCancellation(job.__bullJob.id!);
+               return {
+                  skipped: skipReason
+               };
+            }
+         }
+
          state.start();
-         workflowResult = await this.workflow.__fn({
-            ctx: this.ctx,
-            job: this.job,
-            data: this.job.state.getSourceData()
-         });
+         await this.checkCancellation();
+
+         if (state.isRollingBack()) {
+            // We crashed while rolling back, replay the completed steps so we know what is left to roll back
+            ctx.__log(
+              "debug",
+              `Resuming rollback of workflow ${ this.workflow.__id }`
+            );
+            stepExecutor.__replayingRollback = true;
+         }
+
+         if (this.workflow.__isFailureJob(job.__bullJob)) {
+            workflowResult = await this.runFailureHandler();
+         } else {
+            const handler = this.workflow.__getHandler(state.data!.__version);
+            workflowResult = await handler({
+               ctx: this.ctx,
+               job: this.job,
+               data: this.job.state.getSourceData()
+            });
+         }
+
+         if (stepExecutor.__replayingRollback) {
+            throw new RollbackReplayStop();
+         }
+         if (this.workflow.__strict) {
+            stepExecutor.__checkAllStepsReplayed();
+         }
 
          //> Marking execution as complete
          state.complete();
-         ctx.log(
+         await stepExecutor.__reportProgress();
+         await this.workflow.__releaseScheduleLock(job.__bullJob.id!);
+         // The job may have been cancelled after its last step boundary, which no longer stops it
+         await this.workflow.__clearCancellation(job.__bullJob.id!);
+         if (this.workflow.__isFailureJob(job.__bullJob)) {
+            await this.workflow.__recordFailureOutcome(
+              state.getSourceData().failedJobId,
+              {
+                 status: "completed",
+                 result: workflowResult ?? null
+              }
+            );
+         }
+         ctx.__log(
            "debug",
            `Execution of workflow ${ this.workflow.__id } completed`
          );
-
-         //> Handle invocations - notify waiting jobs
-         if (state.data?.__invocations && state.data.__invocations.length > 0) {
-            ctx.log(
-              "debug",
-              `Processing ${state.data.__invocations.length} invocations for completed job ${job.__bullJob.id}`
-            );
-            
-            for (const invocation of state.data.__invocations) {
-               try {
-                  ctx.log(
-                    "debug",
-                    `Processing invocation from workflow ${invocation.fnId}, step ${invocation.stepId}`
-                  );
-                  
-                  // Get the workflow that invoked this job
-                  const invokerWorkflow = this.workflow.__client?.__workflows[invocation.fnId];
-                  if (!invokerWorkflow) {
-                     ctx.log(
-                       "error",
-                       `Could not find invoker workflow ${invocation.fnId}`
-                     );
-                     continue;
-                  }
-
-                  // Resume the waiting job by moving it out of delayed state
-                  const waitingJobs = await invokerWorkflow.__wrapper.__getBullQueue().getDelayed();
-                  ctx.log(
-                    "debug",
-                    `Found ${waitingJobs.length} delayed jobs in workflow ${invocation.fnId}`
-                  );
-                  
-                  for (const waitingJob of waitingJobs) {
-                     // Parse the job state properly
-                     const rawJobData = waitingJob.data;
-                     const preparedData = JobStateManager.prepareData(rawJobData);
-                     const jobState = preparedData.data;
-                     
-                     if (jobState.__openqueue && jobState.__steps && jobState.__steps[invocation.stepId]) {
-                        const stepState = jobState.__steps[invocation.stepId];
-                        ctx.log(
-                          "debug",
-                          `Checking step ${invocation.stepId}: status=${stepState.status}, jobId=${stepState.result?.jobId}`
-                        );
-                        
-                        if (stepState.status === "delayed" && stepState.result?.jobId === job.__bullJob.id) {
-                           // Move the job back to waiting queue
-                           await waitingJob.promote();
-                           ctx.log(
-                             "debug",
-                             `Promoted waiting job ${waitingJob.id} for step ${invocation.stepId}`
-                           );
-                           break;
-                        }
-                     }
-                  }
-               } catch (e) {
-                  ctx.log(
-                    "error",
-                    `Error processing invocation: ${e?.toString() ?? "N/A"}`
-                  );
-               }
-            }
-         }
       }
       catch (e) {
          if (e instanceof DelayedError) {
             // Re-throw DelayedError so BullMQ can handle it properly
             throw e;
-         } else if (e instanceof UnrecoverableError) {
+         } else if (e instanceof JobCancelledError) {
+            // Cancelling isn't a failure, so nothing is rolled back
+            state.cancel(e.reason);
+            await this.workflow.__clearCancellation(job.__bullJob.id!);
+            await stepExecutor.__unregisterWaiters();
+            ctx.__log(
+              "info",
+              `Job ${ job.__bullJob.id } of workflow ${ this.workflow.__id } was cancelled`
+            );
+            throw e;
+         } else if (e instanceof RollbackReplayStop) {
+            await this.handleFinalFailure(e);
+            throw new UnrecoverableError(`Workflow ${ this.workflow.__id } was rolled back`);
+         }
+
+         // Errors of steps are recorded when the step fails, this records those thrown outside of steps
+         state.recordError(
+           e,
+           null,
+           job.__bullJob.attemptsMade + 1
+         );
+
+         if (e instanceof RateLimitedError) {
+            ctx.__log(
+              "info",
+              `Workflow ${ this.workflow.__id } is rate limited for ${ e.duration }ms`
+            );
+            await this.workflow.__wrapper.__rateLimit(e.duration);
+            // Moves the job back to waiting, without using up an attempt
+            throw BullWorker.RateLimitError();
+         }
+
+         if (e instanceof RetryAfterError) {
+            ctx.__log(
+              "debug",
+              `Retrying workflow ${ this.workflow.__id } at ${ new Date(e.retryAt).toISOString() } as requested`
+            );
+            await stepExecutor.__delayJob(Math.max(
+              e.retryAt - Date.now(),
+              0
+            ));
+            throw new DelayedError();
+         }
+
+         if (e instanceof UnrecoverableError) {
             // Re-throw UnrecoverableError so BullMQ can handle it properly
+            await this.handleFinalFailure(e);
             throw e;
          }
 
-         ctx.log(
+         ctx.__log(
            "error",
            `An error occurred for workflow ${ this.workflow.__id }, error: ${ e?.toString() ?? "N/A" }`,
            {
-              error: e?.toString ?? null
+              error: serializeError(e)
            }
          );
+
+         if (job.isFinalAttempt(e)) {
+            await this.handleFinalFailure(e);
+         }
+
          // Re-throw other errors
          throw e;
       }
       finally {
-         this.wrapUp();
-         this.state.finish();
+         await this.ctx.__flushLogs();
          await this.state.updateData();
       }
       
@@ -170,12 +288,154 @@ export class ActiveJobExecutor {
       return workflowResult;
    }
 
-   wrapUp () {
-      const logs = this.ctx.__logs;
-      this.state.data!.__logs.push(
-        ...logs
+   /**
+    * The time left (ms) before the job exceeds its workflow's `maxDuration`, or null if it has none
+    */
+   getRemainingDuration () {
+      const maxDuration = this.workflow.__maxDuration;
+      const startedAt = this.state.data?.__metrics.startedAt;
+      if (maxDuration === undefined || !startedAt) {
+         return null;
+      }
+
+      return Math.max(
+        startedAt + maxDuration - Date.now(),
+        0
+      );
+   }
+
+   checkDeadline () {
+      if (this.getRemainingDuration() === 0) {
+         throw this.createTimeoutError();
+      }
+   }
+
+   /**
+    * Throws a `JobCancelledError` if the job was cancelled through `client.cancel()`
+    */
+   async checkCancellation () {
+      const jobId = this.job.__bullJob.id!;
+      const cancellation = await this.workflow.__getCancellation(jobId);
+      if (cancellation) {
+         throw new JobCancelledError(
+           jobId,
+           cancellation.reason
+         );
+      }
+   }
+
+   createTimeoutError () {
+      return new WorkflowTimeoutError(
+        this.workflow.__id,
+        this.workflow.__maxDuration!
       );
    }
+
+   /**
+    * Called once the job has failed for good, either after its last attempt or on an unrecoverable error
+    */
+   async handleFinalFailure (error: unknown) {
+      const {
+         job,
+         state
+      } = this;
+
+      await this.stepExecutor.rollback(error);
+      await this.stepExecutor.__unregisterWaiters();
+      await this.workflow.__clearCancellation(job.__bullJob.id!);
+
+      // A resumed rollback ends with a `RollbackReplayStop`, the error that failed the job was kept when it started
+      const failure = state.data!.__rollback?.error ?? serializeError(error);
+
+      if (this.workflow.__isFailureJob(job.__bullJob)) {
+         await this.workflow.__recordFailureOutcome(
+           state.getSourceData().failedJobId,
+           {
+              status: "failed",
+              error: failure
+           }
+         );
+         return;
+      }
+
+      if (this.workflow.__deadLetter) {
+         await this.workflow.getClient()
+           .deadLetters(this.workflow)
+           .add({
+              jobId: job.__bullJob.id!,
+              failedAt: Date.now(),
+              attempts: job.__bullJob.attemptsMade + 1,
+              error: failure,
+              state: await this.getFailedState()
+           });
+      }
+
+      // The handler may already be running, if this job was interrupted after creating it
+      if (this.workflow.__onFailure && (
+        !state.data!.__failure || state.data!.__failure.status === "active"
+      )) {
+         await this.createFailureJob(failure);
+      }
+   }
+
+   /**
+    * The state of the job with all of its steps, as handed to dead letters & the `onFailure` handler
+    */
+   async getFailedState (): Promise<JobState> {
+      return {
+         ...this.state.data!,
+         __steps: await this.state.hydrateSteps()
+      };
+   }
+
+   async createFailureJob (error: SerializedError) {
+      const {
+         job,
+         state
+      } = this;
+      const failureJobId = this.workflow.__failureJobId(job.__bullJob.id!);
+      const source: FailureJobSource = {
+         failedJobId: job.__bullJob.id!,
+         error,
+         attempts: job.__bullJob.attemptsMade + 1,
+         state: await this.getFailedState()
+      };
+
+      // Recorded before the failure job exists, so its outcome can't be overwritten by this job's last write
+      if (!state.data!.__failure) {
+         state.data!.__failure = {
+            jobId: failureJobId,
+            status: "active"
+         };
+         await state.updateData();
+      }
+      await this.workflow.__createFailureJob(source);
+   }
+
+   /**
+    * Runs the workflow's `onFailure` handler, for a job created when another job failed for good
+    */
+   async runFailureHandler () {
+      const source = this.state.getSourceData() as FailureJobSource;
+      const onFailure = this.workflow.__onFailure;
+      if (!onFailure) {
+         this.ctx.__log(
+           "warn",
+           `Workflow ${ this.workflow.__id } no longer has an onFailure handler, skipping job ${ source.failedJobId }`
+         );
+         return null;
+      }
+
+      return onFailure({
+         ctx: this.ctx,
+         job: this.job,
+         data: source.state.__source,
+         error: source.error,
+         state: source.state,
+         attempts: source.attempts,
+         failedJobId: source.failedJobId
+      });
+   }
 }
 
 
@@ -187,10 +447,37 @@ export type ExecuteStepResult<T> = {
    ran: boolean;
    result: T;
 };
+export type StepRetryOptions = {
+   /**
+    * How many times the step may run in total, including the first attempt
+    */
+   attempts: number;
+   /**
+    * Defaults to "exponential"
+    */
+   backoff?: BackoffStrategies;
+   /**
+    * The base delay between attempts, in ms or as a string like "30s". Defaults to 1000.
+    */
+   delay?: InpDuration;
+   /**
+    * Decides whether the error should be retried, all errors are retried by default
+    */
+   retryIf?: (
+     error: unknown,
+     attempt: number
+   ) => boolean | Promise<boolean>;
+};
 export type ExecuteRunStepOptions<Fn extends () => Promise<any> = () => Promise<any>> =
   ExecuteStepBaseOptions
   & {
    run: Fn;
+   rollback?: (result: any) => Promise<any>;
+   retry?: StepRetryOptions;
+   timeout?: number;
+};
+export type ExecuteParallelStepOptions = {
+   steps: ExecuteRunStepOptions[];
 };
 export type ExecuteSleepStepOptions =
   ExecuteStepBaseOptions
@@ -209,96 +496,645 @@ export type ExecuteInvokeStepOptions<T = any> =
    workflow: string;
    data: T;
 };
+export type ExecuteSpawnStepOptions<T = any> =
+  ExecuteStepBaseOptions
+  & {
+   workflow: string;
+   data: T;
+   jobOptions?: Omit<InpJobOptions, "uniqueJobId">;
+};
+export type ExecuteWaitForEventStepOptions =
+  ExecuteStepBaseOptions
+  & {
+   event: string;
+   match?: Record<string, unknown>;
+   timeout: number;
+};
+export type ExecuteMapStepOptions<T = any> =
+  ExecuteStepBaseOptions
+  & {
+   workflow: string;
+   items: T[];
+   concurrency: number;
+};
+export type MapItemResult<R = any> = {
+   success: true;
+   result: R;
+} | {
+   success: false;
+   error: string;
+};
+type MapStepState = {
+   total: number;
+   /**
+    * How many children were created, they're created in item order
+    */
+   created: number;
+   /**
+    * How many children had finished when the job was last delayed
+    */
+   finished: number;
+};
+export type ExecuteWaitForApprovalStepOptions =
+  ExecuteStepBaseOptions
+  & {
+   timeout: number;
+   payloadSchema: z.ZodTypeAny;
+};
+export type Approval<T = any> = {
+   /**
+    * Signed one-time token to give to whoever approves, i.e. in an email link
+    */
+   token: string;
+   expiresAt: number;
+   /**
+    * Delays the job until the approval is resolved, resolving with the payload or `null` once it times out
+    */
+   wait: () => Promise<T | null>;
+};
+type ApprovalStepState = {
+   token: string;
+   nonce: string;
+   expiresAt: number;
+   payload: any;
+};
 export type ExecuteRepeatStepOptions<Fn extends () => Promise<any> = () => Promise<any>> =
   ExecuteStepBaseOptions
   & {
    limit: number;
-   every?: number;
+   every?: RepeatInterval;
+   /**
+    * Stop repeating this long (ms) after the first attempt, even if the limit isn't reached
+    */
+   until?: number;
+   timeout?: number;
    run: Fn;
+   /**
+    * Set when the step continues with its next attempt right away
+    */
+   stepState?: StepStateManager;
 };
 
 
+type StepRollback = {
+   id: string;
+   stepState: StepStateManager;
+   rollback: (result: any) => Promise<any>;
+};
+
 export class StepExecutor {
+   /**
+    * Rollback handlers of the completed steps, in the order they were completed
+    */
+   public __rollbacks: StepRollback[] = [];
+   /**
+    * Set when the handler is only replayed to collect the rollbacks of an interrupted rollback
+    */
+   public __replayingRollback = false;
+   /**
+    * The last progress reported through `ctx.progress()`, kept when the step counts are reported
+    */
+   public __progress: Pick<WorkflowProgress, "value" | "message"> | null = null;
+
    constructor (public jobExecutor: ActiveJobExecutor) {
 
    }
 
-   async executeRun<
-     T,
-     Ret extends ExecuteStepResult<any>
-   > (options: ExecuteRunStepOptions) {
+   /**
+    * Runs the rollback handlers of all completed steps in reverse order. Each rollback is stored in its step state,
+    * so a rollback that already ran is never run again. One that was interrupted by a crash is retried.
+    */
+   async rollback (error: unknown) {
       const {
          ctx,
-         state,
-         job
+         state
       } = this.jobExecutor;
-      const stepState = state.forStep(
-        options.id,
-        "run"
-      );
 
-      if (stepState.data.status === "completed") {
-         ctx.log(
-           "debug",
-           `Skipping step ${ options.id } as it is already completed`
-         );
+      if (!this.__rollbacks.length && !state.isRollingBack()) {
+         return;
+      }
 
-         return {
-            success: true,
-            ran: false,
-            result: stepState.data.result
-         } as Ret;
+      state.startRollback(error);
+      await state.updateData();
+
+      for (const entry of [ ...this.__rollbacks ].reverse()) {
+         const stepState = entry.stepState;
+         const rollbackStatus = stepState.data.rollback?.status;
+         if (rollbackStatus === "completed" || rollbackStatus === "failed") {
+            continue;
+         }
+
+         stepState.startRollback();
+         await state.updateData();
+
+         try {
+            await entry.rollback(stepState.data.result);
+            stepState.completeRollback();
+         }
+         catch (e) {
+            ctx.__log(
+              "error",
+              `An error occurred while rolling back step ${ entry.id }, error: ${ e?.toString() ?? "N/A" }`
+            );
+            stepState.failRollback(e instanceof Error ? e : new Error(String(e)));
+         }
+
+         await state.updateData();
       }
 
-      ctx.log(
-        "debug",
-        `Executing step ${ options.id }`
-      );
+      state.completeRollback();
+      await state.updateData();
+   }
 
-      try {
-         const stepResult = await options.run() as T;
-         stepState.complete(stepResult);
-         await this.jobExecutor.state.updateData();
-         return {
-            success: true,
-            ran: true,
-            result: stepResult
-         } as Ret;
+   /**
+    * Removes the job's steps from the events they're waiting for, once the job is cancelled or failed for good
+    */
+   async __unregisterWaiters () {
+      const {
+         job,
+         state,
+         workflow
+      } = this.jobExecutor;
+      const events = workflow.getClient().__events;
+      const steps = await state.hydrateSteps();
+
+      for (const [ stepId, step ] of Object.entries(steps)) {
+         if (step.type === "wait-for-event" && step.status === "delayed" && step.result?.event) {
+            await events.unregister(
+              step.result.event,
+              {
+                 workflow: workflow.__id,
+                 jobId: job.__bullJob.id!,
+                 stepId
+              }
+            );
+         }
       }
-      catch (e) {
-         ctx.log(
-           "error",
-           `An error occurred for step ${ options.id }, error: ${ e?.toString() ?? "N/A" }`,
-           {
-              error: e?.toString ?? null
-           }
-         );
-         const error = e instanceof Error ? e : new Error(String(e));
-         stepState.error(error);
-         await this.jobExecutor.state.updateData();
+   }
 
-         throw error;
+   /**
+    * Retrieves the state of a step, after checking that it replays at the same position it first ran at. A divergent
+    * order fails the job.
+    */
+   async __forStep (
+     stepId: string,
+     type: StepType
+   ) {
+      const { state } = this.jobExecutor;
+      const position = state.__seenSteps.length;
+      const stepState = await state.forStep(
+        stepId,
+        type
+      );
+
+      const recorded = state.data!.__stepOrder[position];
+      if (recorded !== stepId) {
+         throw new NonDeterminismError(
+           stepId,
+           `Step ${ stepId } replayed at position ${ position + 1 }, where step ${ recorded } ran before`
+         );
       }
-      finally {
-         ctx.log(
-           "debug",
-           `Step ${ options.id } finished (regardless of status)`
+
+      return stepState;
+   }
+
+   /**
+    * Checks that a finished run replayed every step that ran before, for strict workflows
+    */
+   __checkAllStepsReplayed () {
+      const { state } = this.jobExecutor;
+      const missing = state.data!.__stepOrder[state.__seenSteps.length];
+      if (missing !== undefined) {
+         throw new NonDeterminismError(
+           missing,
+           `Step ${ missing } ran before, but the handler finished without replaying it`
          );
       }
    }
 
-   async executeSleep (options: ExecuteSleepStepOptions): Promise<ExecuteStepResult<any>> {
+   /**
+    * Whether the job should take the code path of the given change. Jobs that already ran steps past this point
+    * started before the change was deployed, and keep taking the old path. The decision is stored, so it never
+    * changes for the job.
+    */
+   patched (changeId: string) {
+      const { state } = this.jobExecutor;
+      const patches = state.data!.__patches;
+
+      if (patches[changeId] === undefined) {
+         patches[changeId] = state.__seenSteps.length >= state.data!.__stepOrder.length;
+      }
+
+      return patches[changeId];
+   }
+
+   /**
+    * Updates the job's progress with the given value, or the last one, and how many of the steps seen so far
+    * have completed
+    */
+   async __reportProgress (progress?: Pick<WorkflowProgress, "value" | "message">) {
       const {
-         ctx,
          job,
          state
       } = this.jobExecutor;
-      // We allow this option as we use this function in .sleepUntil()
-      const stepState = options.stepState ?? state.forStep(
-        options.id,
+
+      if (progress) {
+         this.__progress = progress;
+      }
+      else if (!this.__progress) {
+         // Keep the value reported before the job was delayed or retried
+         const previous = job.__bullJob.progress as Partial<WorkflowProgress> | number;
+         if (typeof previous === "object" && previous.value !== undefined) {
+            this.__progress = {
+               value: previous.value,
+               message: previous.message ?? null
+            };
+         }
+      }
+
+      await job.updateProgress({
+         value: this.__progress?.value ?? null,
+         message: this.__progress?.message ?? null,
+         steps: {
+            completed: Object.values(state.steps)
+              .filter(step => step.data.status === "completed").length,
+            seen: state.__seenSteps.length
+         }
+      });
+   }
+
+   /**
+    * Called before running any step which isn't completed yet
+    */
+   async __beforeStep () {
+      await this.jobExecutor.ctx.__flushLogs();
+      await this.__reportProgress();
+
+      // When replaying for a rollback nothing new may run, so we stop at the first step which isn't completed
+      if (this.__replayingRollback) {
+         throw new RollbackReplayStop();
+      }
+
+      // Only checked here, so the completed steps have replayed & registered their rollbacks once the job times out
+      this.jobExecutor.checkDeadline();
+      await this.jobExecutor.checkCancellation();
+   }
+
+   /**
+    * Runs a step's function, failing it if it takes longer than the timeout or runs past the workflow's deadline.
+    * The function itself can't be stopped, it's left running in the background.
+    */
+   async __runWithTimeout<T> (
+     stepId: string,
+     run: () => Promise<T>,
+     timeout?: number
+   ): Promise<T> {
+      const scope = {
+         stepId,
+         attempt: Math.max(
+           this.jobExecutor.state.steps[stepId]?.data.metrics.attempts ?? 1,
+           1
+         )
+      };
+      const scopedRun = () => stepLogScope.run(
+        scope,
+        run
+      );
+      const remaining = this.jobExecutor.getRemainingDuration();
+      if (timeout === undefined && remaining === null) {
+         return scopedRun();
+      }
+
+      const isDeadline = remaining !== null && (
+        timeout === undefined || remaining < timeout
+      );
+      const limit = isDeadline ? remaining! : timeout!;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      try {
+         return await Promise.race([
+            scopedRun(),
+            new Promise<never>((
+              _,
+              reject
+            ) => {
+               timer = setTimeout(
+                 () => reject(
+                   isDeadline
+                   ? this.jobExecutor.createTimeoutError()
+                   : new StepTimeoutError(
+                     stepId,
+                     timeout!
+                   )
+                 ),
+                 limit
+               );
+            })
+         ]);
+      }
+      finally {
+         clearTimeout(timer);
+      }
+   }
+
+   /**
+    * Delays the job, but never past the workflow's deadline. The job will fail once it resumes at the deadline.
+    */
+   async __delayJob (amountMs: number) {
+      const remaining = this.jobExecutor.getRemainingDuration();
+      await this.jobExecutor.job.delay(
+        remaining === null ? amountMs : Math.min(
+          amountMs,
+          remaining
+        )
+      );
+   }
+
+   /**
+    * Delays the job until the step's next attempt, or leaves that to the parallel group the step runs in
+    */
+   async __delayForRetry (
+     stepState: StepStateManager,
+     delay: number,
+     inParallel: boolean
+   ): Promise<never> {
+      stepState.data.status = "delayed";
+      await this.jobExecutor.state.updateData();
+
+      if (inParallel) {
+         throw new ParallelStepDelay(delay);
+      }
+
+      await this.__delayJob(delay);
+      throw new DelayedError();
+   }
+
+   async executeRun<
+     T,
+     Ret extends ExecuteStepResult<any>
+   > (
+     options: ExecuteRunStepOptions,
+     inParallel = false
+   ) {
+      const {
+         ctx,
+         state,
+         job
+      } = this.jobExecutor;
+      const stepState = await this.__forStep(
+        options.id,
+        "run"
+      );
+
+      if (stepState.data.status === "completed") {
+         ctx.__log(
+           "debug",
+           `Skipping step ${ options.id } as it is already completed`
+         );
+
+         if (options.rollback) {
+            this.__rollbacks.push({
+               id: options.id,
+               stepState,
+               rollback: options.rollback
+            });
+         }
+
+         return {
+            success: true,
+            ran: false,
+            result: stepState.data.result
+         } as Ret;
+      }
+
+      await this.__beforeStep();
+
+      // A job retry gives the step a fresh set of attempts
+      if (stepState.data.status === "failed") {
+         stepState.data.metrics.attempts = 0;
+      }
+
+      while (true) {
+         stepState.attempt();
+         await this.jobExecutor.state.updateData();
+
+         ctx.__log(
+           "debug",
+           `Executing step ${ options.id }, attempt ${ stepState.data.metrics.attempts }`
+         );
+
+         try {
+            const stepResult = await this.__runWithTimeout(
+              options.id,
+              options.run,
+              options.timeout
+            ) as T;
+            stepState.complete(stepResult);
+            await this.jobExecutor.state.updateData();
+
+            if (options.rollback) {
+               this.__rollbacks.push({
+                  id: options.id,
+                  stepState,
+                  rollback: options.rollback
+               });
+            }
+
+            return {
+               success: true,
+               ran: true,
+               result: stepResult
+            } as Ret;
+         }
+         catch (e) {
+            ctx.__log(
+              "error",
+              `An error occurred for step ${ options.id }, error: ${ e?.toString() ?? "N/A" }`,
+              {
+                 error: serializeError(e)
+              }
+            );
+            const error = e instanceof Error ? e : new Error(String(e));
+
+            if (e instanceof RateLimitedError) {
+               // The whole workflow is paused, the step runs again once the job is picked up after
+               stepState.recordError(e);
+               stepState.data.metrics.attempts--;
+               await this.jobExecutor.state.updateData();
+               throw e;
+            }
+
+            if (e instanceof RetryAfterError) {
+               // The step asked to run again at a set time, which doesn't count as an attempt
+               stepState.recordError(e);
+               stepState.data.metrics.attempts--;
+               const retryDelay = Math.max(
+                 e.retryAt - Date.now(),
+                 0
+               );
+
+               if (retryDelay <= INLINE_RETRY_MAX_DELAY) {
+                  ctx.__log(
+                    "debug",
+                    `Retrying step ${ options.id } in ${ retryDelay }ms as requested`
+                  );
+                  await sleep(retryDelay);
+                  continue;
+               }
+
+               ctx.__log(
+                 "debug",
+                 `Retrying step ${ options.id } in ${ retryDelay }ms as requested, delaying job`
+               );
+               return this.__delayForRetry(
+                 stepState,
+                 retryDelay,
+                 inParallel
+               );
+            }
+
+            const attempt = stepState.data.metrics.attempts;
+
+            if (options.retry && await this.__shouldRetryStep(
+              options.retry,
+              e,
+              attempt
+            )) {
+               stepState.recordError(error);
+               const retryDelay = computeBackoffDelay(
+                 options.retry.backoff ?? "exponential",
+                 DurationSchema.parse(options.retry.delay ?? 1000),
+                 attempt
+               );
+
+               if (retryDelay <= INLINE_RETRY_MAX_DELAY) {
+                  ctx.__log(
+                    "debug",
+                    `Retrying step ${ options.id } in ${ retryDelay }ms`
+                  );
+                  await sleep(retryDelay);
+                  continue;
+               }
+
+               ctx.__log(
+                 "debug",
+                 `Retrying step ${ options.id } in ${ retryDelay }ms, delaying job`
+               );
+               return this.__delayForRetry(
+                 stepState,
+                 retryDelay,
+                 inParallel
+               );
+            }
+
+            stepState.error(error);
+            await this.jobExecutor.state.updateData();
+
+            throw error;
+         }
+         finally {
+            ctx.__log(
+              "debug",
+              `Step ${ options.id } finished (regardless of status)`
+            );
+         }
+      }
+   }
+
+   async __shouldRetryStep (
+     retry: StepRetryOptions,
+     error: unknown,
+     attempt: number
+   ) {
+      if (error instanceof UnrecoverableError || error instanceof DelayedError) {
+         return false;
+      }
+
+      if (attempt >= retry.attempts) {
+         return false;
+      }
+
+      return retry.retryIf ? retry.retryIf(
+        error,
+        attempt
+      ) : true;
+   }
+
+   /**
+    * Runs several run steps at the same time. Each one is stored as its own step, so on replay only the ones that
+    * didn't complete are run again. Waits for all of them to settle before throwing the first error. Steps never
+    * delay the job themselves, it's delayed once for the earliest retry when no step failed for good.
+    */
+   async executeParallel (options: ExecuteParallelStepOptions): Promise<ExecuteStepResult<any>[]> {
+      const { ctx } = this.jobExecutor;
+
+      ctx.__log(
+        "debug",
+        `Executing steps ${ options.steps.map(step => step.id)
+          .join(", ") } in parallel`
+      );
+
+      const settled = await Promise.allSettled(
+        options.steps.map(step => this.executeRun(
+          step,
+          true
+        ))
+      );
+
+      const errors = settled.filter(result => result.status === "rejected")
+        .map(result => result.reason);
+      // The job is already delayed, so nothing else may fail it
+      const delayed = errors.find(error => error instanceof DelayedError);
+      if (delayed) {
+         throw delayed;
+      }
+
+      const failure = errors.find(error => !(error instanceof ParallelStepDelay));
+      if (failure) {
+         throw failure;
+      }
+
+      if (errors.length) {
+         const delay = Math.min(...errors.map(error => (error as ParallelStepDelay).delay));
+         ctx.__log(
+           "debug",
+           `Retrying steps of the parallel group in ${ delay }ms, delaying job`
+         );
+         await this.__delayJob(delay);
+         throw new DelayedError();
+      }
+
+      return settled.map(result => (
+        result as PromiseFulfilledResult<ExecuteStepResult<any>>
+      ).value);
+   }
+
+   async executeSleep (options: ExecuteSleepStepOptions): Promise<ExecuteStepResult<any>> {
+      const {
+         ctx,
+         job,
+         state
+      } = this.jobExecutor;
+      // We allow this option as we use this function in .sleepUntil()
+      const stepState = options.stepState ?? await this.__forStep(
+        options.id,
         "sleep"
       );
 
+      if (stepState.data.status === "completed") {
+         ctx.__log(
+           "debug",
+           `Skipping sleep step ${ options.id } as it is already completed`
+         );
+
+         return {
+            success: true,
+            ran: false,
+            result: stepState.data.result
+         };
+      }
+
+      await this.__beforeStep();
       if (stepState.data.status === "delayed") {
          // Already put for sleep, this time we can mark it as complete and procee
          stepState.complete(true);
@@ -319,14 +1155,14 @@ export class StepExecutor {
          await job.changePriority(delayedPriority);
 
          // Moving job to delayed until specified timestamp
-         await job.delay(options.duration);
+         await this.__delayJob(options.duration);
          // Throw an error which BullMQ recognizes as a sign to just not error the job, just delay it
          throw new DelayedError();
       }
    }
 
-   executeSleepUntil (options: ExecuteSleepUntilStepOptions): Promise<ExecuteStepResult<any>> {
-      const stepState = this.jobExecutor.state.forStep(
+   async executeSleepUntil (options: ExecuteSleepUntilStepOptions): Promise<ExecuteStepResult<any>> {
+      const stepState = await this.__forStep(
         options.id,
         "sleep-until"
       );
@@ -341,16 +1177,15 @@ export class StepExecutor {
    async executeRepeat<T = any> (options: ExecuteRepeatStepOptions): Promise<ExecuteStepResult<T | false>> {
       const {
          ctx,
-         job,
          state
       } = this.jobExecutor;
-      const stepState = state.forStep(
+      const stepState = options.stepState ?? await this.__forStep(
         options.id,
         "repeat"
       );
 
       if (stepState.data.status === "completed") {
-         ctx.log(
+         ctx.__log(
            "debug",
            `Skipping repeat step ${ options.id } as it is already completed`
          );
@@ -362,19 +1197,30 @@ export class StepExecutor {
          };
       }
 
+      await this.__beforeStep();
       // Initialize or retrieve repeat state
       let repeatState = stepState.data.result as {
          attempt: number;
          lastResult: T | false;
          completed: boolean;
          needsDelay?: boolean;
+         deadline?: number | null;
+         /**
+          * The falsy results of the most recent attempts, for debugging
+          */
+         history?: {
+            ts: number;
+            result: unknown;
+         }[];
       } | undefined;
 
       if (!repeatState) {
          repeatState = {
             attempt: 0,
             lastResult: false,
-            completed: false
+            completed: false,
+            deadline: options.until !== undefined ? Date.now() + options.until : null,
+            history: []
          };
          stepState.start();
          stepState.data.result = repeatState;
@@ -396,7 +1242,7 @@ export class StepExecutor {
          stepState.complete(false);
          await this.jobExecutor.state.updateData();
          
-         ctx.log(
+         ctx.__log(
            "debug",
            `Repeat step ${ options.id } failed after ${ options.limit } attempts`
          );
@@ -408,14 +1254,35 @@ export class StepExecutor {
          };
       }
 
-      ctx.log(
+      // Check if we've passed the deadline
+      if (repeatState.deadline && Date.now() >= repeatState.deadline) {
+         stepState.complete(false);
+         await this.jobExecutor.state.updateData();
+
+         ctx.__log(
+           "debug",
+           `Repeat step ${ options.id } failed after passing its deadline, at attempt ${ repeatState.attempt }`
+         );
+
+         return {
+            success: true,
+            ran: true,
+            result: false
+         };
+      }
+
+      ctx.__log(
         "debug",
         `Executing repeat step ${ options.id }, attempt ${ repeatState.attempt + 1 }/${ options.limit }`
       );
 
       try {
          // Execute the run function
-         const result = await options.run() as T;
+         const result = await this.__runWithTimeout(
+           options.id,
+           options.run,
+           options.timeout
+         ) as T;
          repeatState.attempt++;
          repeatState.lastResult = result;
 
@@ -425,7 +1292,7 @@ export class StepExecutor {
             stepState.complete(result);
             await this.jobExecutor.state.updateData();
             
-            ctx.log(
+            ctx.__log(
               "debug",
               `Repeat step ${ options.id } succeeded on attempt ${ repeatState.attempt }`
             );
@@ -438,13 +1305,27 @@ export class StepExecutor {
          }
 
          // Result was falsy, we need to retry
-         ctx.log(
+         ctx.__log(
            "debug",
            `Repeat step ${ options.id } attempt ${ repeatState.attempt } returned falsy value, will retry`
          );
+         repeatState.history = [
+            ...repeatState.history ?? [],
+            {
+               ts: Date.now(),
+               result: result ?? null
+            }
+         ].slice(-MAX_REPEAT_HISTORY);
 
-         // Check if we need to delay before next attempt
-         if (options.every && options.every > 0 && repeatState.attempt < options.limit) {
+         // Check if we need to delay before next attempt, never waiting past the deadline
+         const delay = Math.min(
+           options.every ? computeRepeatDelay(
+             options.every,
+             repeatState.attempt
+           ) : 0,
+           repeatState.deadline ? repeatState.deadline - Date.now() : Infinity
+         );
+         if (delay > 0 && repeatState.attempt < options.limit) {
             // Mark that we need a delay
             repeatState.needsDelay = true;
             stepState.data.result = repeatState;
@@ -452,7 +1333,7 @@ export class StepExecutor {
             await this.jobExecutor.state.updateData();
             
             // Move job to delayed state
-            await job.delay(options.every);
+            await this.__delayJob(delay);
             throw new DelayedError();
          }
 
@@ -462,7 +1343,10 @@ export class StepExecutor {
          await this.jobExecutor.state.updateData();
 
          // Self-invoke to continue immediately
-         return this.executeRepeat(options);
+         return this.executeRepeat({
+            ...options,
+            stepState
+         });
       }
       catch (e) {
          if (e instanceof DelayedError) {
@@ -471,7 +1355,7 @@ export class StepExecutor {
          
          if (e instanceof UnrecoverableError) {
             // UnrecoverableError should fail immediately without retry
-            ctx.log(
+            ctx.__log(
               "error",
               `Unrecoverable error in repeat step ${ options.id }: ${ e?.toString() ?? "N/A" }`
             );
@@ -481,7 +1365,7 @@ export class StepExecutor {
             throw e;
          }
          
-         ctx.log(
+         ctx.__log(
            "error",
            `Error in repeat step ${ options.id }: ${ e?.toString() ?? "N/A" }`
          );
@@ -495,16 +1379,15 @@ export class StepExecutor {
    async executeInvoke<T = any, R = any> (options: ExecuteInvokeStepOptions<T>): Promise<ExecuteStepResult<R>> {
       const {
          ctx,
-         job,
          state
       } = this.jobExecutor;
-      const stepState = state.forStep(
+      const stepState = await this.__forStep(
         options.id,
         "invoke-wait-for-result"
       );
 
       if (stepState.data.status === "completed") {
-         ctx.log(
+         ctx.__log(
            "debug",
            `Skipping invoke step ${ options.id } as it is already completed`
          );
@@ -516,6 +1399,7 @@ export class StepExecutor {
          };
       }
 
+      await this.__beforeStep();
       if (stepState.data.status === "delayed") {
          // We're resuming from a delay, check if the invoked job is complete
          const invokedJobId = stepState.data.result?.jobId;
@@ -523,7 +1407,7 @@ export class StepExecutor {
             throw new Error(`No invoked job ID found for step ${ options.id }`);
          }
 
-         ctx.log(
+         ctx.__log(
            "debug",
            `Resuming invoke step ${ options.id }, checking job ${ invokedJobId } in workflow ${ options.workflow }`
          );
@@ -541,7 +1425,7 @@ export class StepExecutor {
          }
 
          const jobState = await invokedJob.getState();
-         ctx.log(
+         ctx.__log(
            "debug",
            `Invoked job ${ invokedJobId } state: ${ jobState }`
          );
@@ -552,7 +1436,7 @@ export class StepExecutor {
             stepState.complete(result);
             await this.jobExecutor.state.updateData();
             
-            ctx.log(
+            ctx.__log(
               "debug",
               `Invoke step ${ options.id } completed with result from job ${ invokedJobId }`
             );
@@ -568,18 +1452,17 @@ export class StepExecutor {
             await this.jobExecutor.state.updateData();
             throw error;
          } else {
-            // Job is still running, delay again
-            ctx.log(
+            // Job is still running, it resumes us once it has finished
+            ctx.__log(
               "debug",
-              `Job ${ invokedJobId } still in state ${ jobState }, delaying again`
+              `Job ${ invokedJobId } still in state ${ jobState }, waiting for it to finish`
             );
-            await job.delay(1000); // Check again in 1 second
-            throw new DelayedError();
+            return this.__waitForInvokedJobs(async () => [ "completed", "failed" ].includes(await invokedJob.getState()));
          }
       }
 
       // First time invoking - create the job in the target workflow
-      ctx.log(
+      ctx.__log(
         "debug",
         `Invoking workflow ${ options.workflow } from step ${ options.id }`
       );
@@ -591,8 +1474,19 @@ export class StepExecutor {
             throw new Error(`Workflow ${ options.workflow } not found`);
          }
 
-         // Create the job in the target workflow
-         const { bullJob: invokedJob } = await targetWorkflow.createJob(options.data);
+         // Create the job in the target workflow, knowing which step to resume once done
+         const { bulkBullJobs: [ invokedJob ] } = await targetWorkflow.createJobs([
+            {
+               data: options.data,
+               invocations: [
+                  {
+                     fnId: this.jobExecutor.workflow.__id,
+                     stepId: options.id,
+                     jobId: this.jobExecutor.job.__bullJob.id
+                  }
+               ]
+            }
+         ]);
 
          // Store the invoked job ID in our step state
          stepState.start();
@@ -600,40 +1494,378 @@ export class StepExecutor {
          stepState.data.status = "delayed";
          await this.jobExecutor.state.updateData();
 
-         // Add invocation info to the invoked job so it knows to notify us when done
-         const invokedJobData = invokedJob.data;
-         const preparedInvokedData = JobStateManager.prepareData(invokedJobData);
+         ctx.__log(
+           "debug",
+           `Created job ${ invokedJob.id } in workflow ${ options.workflow } for step ${ options.id }`
+         );
+
+         // Delay this job to wait for the invoked job
+         return await this.__waitForInvokedJobs(async () => [ "completed", "failed" ].includes(await invokedJob.getState()));
+      }
+      catch (e) {
+         if (e instanceof DelayedError) {
+            throw e;
+         }
          
-         if (preparedInvokedData.data.__openqueue) {
-            preparedInvokedData.data.__invocations.push({
-               fnId: this.jobExecutor.workflow.__id,
-               stepId: options.id
-            });
-            await invokedJob.updateData(preparedInvokedData.data);
-            
-            ctx.log(
+         ctx.__log(
+           "error",
+           `Error invoking workflow ${ options.workflow } from step ${ options.id }: ${ e?.toString() ?? "N/A" }`
+         );
+         const error = e instanceof Error ? e : new Error(String(e));
+         stepState.error(error);
+         await this.jobExecutor.state.updateData();
+         throw error;
+      }
+   }
+
+   /**
+    * Delays the job until an invoked job resumes it by finishing. One that finished before we were delayed couldn't
+    * resume us, so we check once more after being delayed.
+    */
+   async __waitForInvokedJobs (hasFinished: () => Promise<boolean>): Promise<never> {
+      await this.__delayJob(INVOKED_JOB_RECHECK_INTERVAL);
+      if (await hasFinished()) {
+         await this.jobExecutor.job.__bullJob.promote();
+      }
+
+      throw new DelayedError();
+   }
+
+   /**
+    * Creates a job in another workflow without waiting for it. The created job's id is stored in the step state,
+    * so replaying the step doesn't create it again.
+    */
+   async executeSpawn<T = any> (options: ExecuteSpawnStepOptions<T>): Promise<ExecuteStepResult<{ jobId: string }>> {
+      const {
+         ctx,
+         job,
+         state,
+         workflow
+      } = this.jobExecutor;
+      const stepState = await this.__forStep(
+        options.id,
+        "spawn"
+      );
+
+      if (stepState.data.status === "completed") {
+         ctx.__log(
+           "debug",
+           `Skipping spawn step ${ options.id } as it is already completed`
+         );
+
+         return {
+            success: true,
+            ran: false,
+            result: stepState.data.result
+         };
+      }
+
+      await this.__beforeStep();
+
+      try {
+         const targetWorkflow: Workflow<any, any, any> | undefined = workflow.__client?.__workflows[options.workflow];
+         if (!targetWorkflow) {
+            throw new Error(`Workflow ${ options.workflow } not found`);
+         }
+
+         stepState.start();
+
+         // Deterministic job id, so the job isn't created twice if we crash before saving the step
+         const { bullJob: spawnedJob } = await targetWorkflow.createJob(
+           options.data,
+           {
+              ...options.jobOptions,
+              uniqueJobId: `${ job.__bullJob.id }-${ options.id }`
+           }
+         );
+
+         const result = {
+            jobId: spawnedJob.id!
+         };
+         stepState.complete(result);
+         await this.jobExecutor.state.updateData();
+
+         ctx.__log(
+           "debug",
+           `Spawned job ${ spawnedJob.id } in workflow ${ options.workflow } from step ${ options.id }`
+         );
+
+         return {
+            success: true,
+            ran: true,
+            result
+         };
+      }
+      catch (e) {
+         ctx.__log(
+           "error",
+           `Error spawning job in workflow ${ options.workflow } from step ${ options.id }: ${ e?.toString() ?? "N/A" }`
+         );
+         const error = e instanceof Error ? e : new Error(String(e));
+         stepState.error(error);
+         await this.jobExecutor.state.updateData();
+         throw error;
+      }
+   }
+
+   async executeWaitForEvent<T = any> (options: ExecuteWaitForEventStepOptions): Promise<ExecuteStepResult<T | null>> {
+      const {
+         ctx,
+         job,
+         state,
+         workflow
+      } = this.jobExecutor;
+      const stepState = await this.__forStep(
+        options.id,
+        "wait-for-event"
+      );
+
+      if (stepState.data.status === "completed") {
+         ctx.__log(
+           "debug",
+           `Skipping wait for event step ${ options.id } as it is already completed`
+         );
+
+         return {
+            success: true,
+            ran: false,
+            result: stepState.data.result as T | null
+         };
+      }
+
+      await this.__beforeStep();
+      const events = workflow.getClient().__events;
+      const waiter = {
+         workflow: workflow.__id,
+         jobId: job.__bullJob.id!,
+         stepId: options.id,
+         match: options.match ?? null
+      };
+
+      if (stepState.data.status === "delayed") {
+         // We've been resumed, either by a delivered event or by the timeout
+         const delivery = await events.getDelivery<T>(waiter);
+         if (delivery) {
+            stepState.complete(delivery.payload);
+            await this.jobExecutor.state.updateData();
+            await events.clearDelivery(waiter);
+
+            ctx.__log(
+              "debug",
+              `Wait for event step ${ options.id } received event ${ options.event }`
+            );
+
+            return {
+               success: true,
+               ran: true,
+               result: delivery.payload
+            };
+         }
+
+         const expiresAt = stepState.data.result?.expiresAt ?? 0;
+         if (Date.now() >= expiresAt) {
+            await events.unregister(
+              options.event,
+              waiter
+            );
+            stepState.complete(null);
+            await this.jobExecutor.state.updateData();
+
+            ctx.__log(
               "debug",
-              `Added invocation info to job ${ invokedJob.id }: workflow=${ this.jobExecutor.workflow.__id }, step=${ options.id }`
+              `Wait for event step ${ options.id } timed out waiting for event ${ options.event }`
             );
+
+            return {
+               success: true,
+               ran: true,
+               result: null
+            };
          }
 
-         ctx.log(
+         // Resumed without an event before the timeout, keep waiting for the remaining time
+         await this.__delayJob(expiresAt - Date.now());
+         if (await events.hasDelivery(waiter)) {
+            await job.__bullJob.promote();
+         }
+         throw new DelayedError();
+      }
+
+      ctx.__log(
+        "debug",
+        `Waiting for event ${ options.event } in step ${ options.id }`
+      );
+
+      stepState.start();
+      stepState.data.status = "delayed";
+      stepState.data.result = {
+         event: options.event,
+         match: options.match ?? null,
+         expiresAt: Date.now() + options.timeout
+      };
+      await this.jobExecutor.state.updateData();
+
+      await events.register(
+        options.event,
+        waiter
+      );
+      await this.__delayJob(options.timeout);
+
+      // The event might have been delivered before the job was delayed, in which case it couldn't be promoted
+      if (await events.hasDelivery(waiter)) {
+         await job.__bullJob.promote();
+      }
+      throw new DelayedError();
+   }
+
+   /**
+    * Creates a child job in the target workflow for every item, with at most `concurrency` of them unfinished at
+    * once. The job is delayed until all children have finished, and completes with their results in item order.
+    */
+   async executeMap<T = any, R = any> (options: ExecuteMapStepOptions<T>): Promise<ExecuteStepResult<MapItemResult<R>[]>> {
+      const {
+         ctx,
+         job,
+         state,
+         workflow
+      } = this.jobExecutor;
+      const stepState = await this.__forStep(
+        options.id,
+        "map"
+      );
+
+      if (stepState.data.status === "completed") {
+         ctx.__log(
            "debug",
-           `Created job ${ invokedJob.id } in workflow ${ options.workflow } for step ${ options.id }`
+           `Skipping map step ${ options.id } as it is already completed`
          );
 
-         // Delay this job to wait for the invoked job
-         await job.delay(1000); // Check again in 1 second
-         throw new DelayedError();
+         return {
+            success: true,
+            ran: false,
+            result: stepState.data.result as MapItemResult<R>[]
+         };
+      }
+
+      await this.__beforeStep();
+
+      try {
+         const targetWorkflow: Workflow<any, any, any> | undefined = workflow.__client?.__workflows[options.workflow];
+         if (!targetWorkflow) {
+            throw new Error(`Workflow ${ options.workflow } not found`);
+         }
+
+         let mapState = stepState.data.result as MapStepState | null;
+         if (!mapState) {
+            mapState = {
+               total: options.items.length,
+               created: 0,
+               finished: 0
+            };
+            stepState.start();
+            stepState.data.result = mapState;
+         }
+
+         // Children push their result once they finish, so we only need to count them
+         const results = workflow.__getMapResults(
+           job.__bullJob.id!,
+           options.id
+         );
+         let finished = await results.count();
+         if (finished === mapState.finished && finished < mapState.created) {
+            // Resumed without a child finishing, i.e. by the recheck, so a result might not have been pushed
+            await this.__recordFinishedChildren(
+              options.id,
+              targetWorkflow,
+              results
+            );
+            finished = await results.count();
+         }
+
+         //> Creating more children, up to the concurrency limit
+         const available = Math.max(
+           options.concurrency - (
+             mapState.created - finished
+           ),
+           0
+         );
+         const nextIndex = mapState.created;
+         const nextItems = options.items.slice(
+           nextIndex,
+           nextIndex + available
+         );
+
+         if (nextItems.length) {
+            // Deterministic job ids, so children aren't created twice if we crash before saving the state
+            const { bulkBullJobs } = await targetWorkflow.createJobs(nextItems.map((
+              item,
+              i
+            ) => (
+              {
+                 data: item,
+                 options: {
+                    uniqueJobId: this.__mapChildJobId(
+                      options.id,
+                      nextIndex + i
+                    )
+                 },
+                 invocations: [
+                    {
+                       fnId: workflow.__id,
+                       stepId: options.id,
+                       jobId: job.__bullJob.id,
+                       index: nextIndex + i
+                    }
+                 ]
+              }
+            )));
+            await results.addPending(nextItems.map((
+              _,
+              i
+            ) => nextIndex + i));
+            mapState.created += nextItems.length;
+
+            ctx.__log(
+              "debug",
+              `Created ${ bulkBullJobs.length } jobs in workflow ${ options.workflow } for map step ${ options.id }`
+            );
+         }
+
+         //> Completing once every child has finished
+         if (finished >= mapState.total) {
+            const itemResults = await results.getAll(mapState.total) as MapItemResult<R>[];
+
+            stepState.complete(itemResults);
+            await this.jobExecutor.state.updateData();
+            await results.clear();
+
+            ctx.__log(
+              "debug",
+              `Map step ${ options.id } completed with ${ itemResults.length } results`
+            );
+
+            return {
+               success: true,
+               ran: true,
+               result: itemResults
+            };
+         }
+
+         mapState.finished = finished;
+         stepState.data.status = "delayed";
+         await this.jobExecutor.state.updateData();
+
+         // Children resume this job once they finish
+         return await this.__waitForInvokedJobs(async () => await results.count() > finished);
       }
       catch (e) {
          if (e instanceof DelayedError) {
             throw e;
          }
-         
-         ctx.log(
+
+         ctx.__log(
            "error",
-           `Error invoking workflow ${ options.workflow } from step ${ options.id }: ${ e?.toString() ?? "N/A" }`
+           `Error in map step ${ options.id }: ${ e?.toString() ?? "N/A" }`
          );
          const error = e instanceof Error ? e : new Error(String(e));
          stepState.error(error);
@@ -641,4 +1873,218 @@ export class StepExecutor {
          throw error;
       }
    }
+
+   __mapChildJobId (
+     stepId: string,
+     index: number
+   ) {
+      return `${ this.jobExecutor.job.__bullJob.id }-${ stepId }-${ index }`;
+   }
+
+   /**
+    * Records the results of the map step's finished children that didn't push their result, i.e. because their
+    * worker crashed right after they finished
+    */
+   async __recordFinishedChildren (
+     stepId: string,
+     targetWorkflow: Workflow<any, any, any>,
+     results: MapResultStore
+   ) {
+      for (const index of await results.getPending()) {
+         const childJobId = this.__mapChildJobId(
+           stepId,
+           index
+         );
+         const childJob = await targetWorkflow.getBullJob(childJobId);
+         const childState = childJob ? await childJob.getState() : "unknown";
+
+         if (childState === "completed" || childState === "failed") {
+            await results.recordJob(
+              index,
+              childJob,
+              childState
+            );
+         } else if (childState === "unknown") {
+            await results.record(
+              index,
+              {
+                 success: false,
+                 error: `Job ${ childJobId } not found`
+              }
+            );
+         }
+      }
+   }
+
+   /**
+    * Creates the approval token, or returns the one created before. Waiting for the approval is done separately
+    * through the returned `wait()`, so the token can be sent out in between.
+    */
+   async executeWaitForApproval<T = any> (options: ExecuteWaitForApprovalStepOptions): Promise<ExecuteStepResult<Approval<T>>> {
+      const {
+         ctx,
+         job,
+         state,
+         workflow
+      } = this.jobExecutor;
+      const stepState = await this.__forStep(
+        options.id,
+        "wait-for-approval"
+      );
+
+      const waiter = {
+         workflow: workflow.__id,
+         jobId: job.__bullJob.id!,
+         stepId: options.id
+      };
+
+      if (stepState.data.status === "completed") {
+         ctx.__log(
+           "debug",
+           `Skipping approval step ${ options.id } as it is already completed`
+         );
+
+         const approval = stepState.data.result as ApprovalStepState;
+         return {
+            success: true,
+            ran: false,
+            result: {
+               token: approval.token,
+               expiresAt: approval.expiresAt,
+               wait: async () => approval.payload ?? null
+            }
+         };
+      }
+
+      if (!stepState.data.result) {
+         await this.__beforeStep();
+
+         const { token, nonce } = await workflow.getClient().__approvals.create(
+           waiter,
+           options.timeout
+         );
+         stepState.start();
+         stepState.data.result = {
+            token,
+            nonce,
+            expiresAt: Date.now() + options.timeout,
+            payload: null
+         } satisfies ApprovalStepState;
+         await state.updateData();
+
+         ctx.__log(
+           "debug",
+           `Created approval for step ${ options.id }`
+         );
+      }
+
+      const approval = stepState.data.result as ApprovalStepState;
+      return {
+         success: true,
+         ran: true,
+         result: {
+            token: approval.token,
+            expiresAt: approval.expiresAt,
+            wait: () => this.__waitForApproval<T>(
+              options,
+              stepState,
+              waiter
+            )
+         }
+      };
+   }
+
+   async __waitForApproval<T> (
+     options: ExecuteWaitForApprovalStepOptions,
+     stepState: StepStateManager,
+     waiter: EventWaiter
+   ): Promise<T | null> {
+      const {
+         ctx,
+         job,
+         state,
+         workflow
+      } = this.jobExecutor;
+      const client = workflow.getClient();
+      const approval = stepState.data.result as ApprovalStepState;
+
+      if (stepState.data.status === "completed") {
+         return approval.payload ?? null;
+      }
+
+      await this.__beforeStep();
+
+      if (stepState.data.status === "delayed") {
+         // We've been resumed, either by a resolved approval or by the timeout
+         const delivery = await client.__events.getDelivery(waiter);
+         if (delivery) {
+            const parsed = options.payloadSchema.safeParse(delivery.payload);
+            if (parsed.success) {
+               stepState.complete({
+                  ...approval,
+                  payload: parsed.data
+               } satisfies ApprovalStepState);
+               await state.updateData();
+               await client.__approvals.consume(approval.nonce);
+               await client.__events.clearDelivery(waiter);
+               await client.__approvals.reportOutcome(
+                 approval.nonce,
+                 {
+                    accepted: true,
+                    issues: null
+                 }
+               );
+
+               ctx.__log(
+                 "debug",
+                 `Approval step ${ options.id } was resolved`
+               );
+               return parsed.data;
+            }
+
+            // The token stays valid, so the approval can be resolved again with a valid payload
+            await client.__events.clearDelivery(waiter);
+            await client.__approvals.reportOutcome(
+              approval.nonce,
+              {
+                 accepted: false,
+                 issues: parsed.error.issues
+              }
+            );
+            ctx.__log(
+              "warn",
+              `Ignoring invalid payload for approval step ${ options.id }`,
+              {
+                 issues: parsed.error.issues
+              }
+            );
+         }
+
+         if (Date.now() >= approval.expiresAt) {
+            await client.__approvals.consume(approval.nonce);
+            stepState.complete({
+               ...approval,
+               payload: null
+            } satisfies ApprovalStepState);
+            await state.updateData();
+
+            ctx.__log(
+              "debug",
+              `Approval step ${ options.id } timed out`
+            );
+            return null;
+         }
+      } else {
+         stepState.data.status = "delayed";
+         await state.updateData();
+      }
+
+      await this.__delayJob(approval.expiresAt - Date.now());
+
+      // The approval might have been resolved before the job was delayed, in which case it couldn't be promoted
+      if (await client.__events.hasDelivery(waiter)) {
+         await job.__bullJob.promote();
+      }
+      throw new DelayedError();
+   }
 }
@@ -1,5 +1,9 @@
+import { NonDeterminismError } from "@/execution/errors.ts";
+import { stepLogScope } from "@/execution/logger.ts";
 import { Workflow } from "@/management/workflow.ts";
 import {
+   SerializedError,
+   serializeError,
    StepStatusSchema,
    StepType,
    StepTypeSchema
@@ -9,7 +13,17 @@ import { z } from "zod";
 
 export const JobInvocationSchema = z.object({
    fnId: z.string(),
-   stepId: z.string()
+   stepId: z.string(),
+   /**
+    * The invoking job, resumed directly once this job has finished
+    */
+   jobId: z.string()
+     .nullish(),
+   /**
+    * Index of the item this job was created for by a map step, its result is pushed to the invoking job
+    */
+   index: z.number()
+     .nullish()
 });
 export const JobMetricsSchema = z.object({
    startedAt: z.number()
@@ -23,12 +37,37 @@ export const JobMetricsSchema = z.object({
    attempts: z.number()
      .default(0)
 });
+export const SerializedErrorSchema: z.ZodType<SerializedError> = z.lazy(() => z.object({
+   name: z.string(),
+   message: z.string(),
+   stack: z.string()
+     .nullish(),
+   cause: SerializedErrorSchema.nullish(),
+   fields: z.record(
+     z.string(),
+     z.any()
+   )
+}));
 export const JobErrorSchema = z.object({
-   stepId: z.string(),
+   /**
+    * The step that failed, null for errors thrown outside of steps
+    */
+   stepId: z.string()
+     .nullish(),
+   attempt: z.number()
+     .nullish(),
+   ts: z.number()
+     .nullish(),
    errorMessage: z.string()
      .nullish(),
+   error: SerializedErrorSchema.nullish()
+});
+export type JobError = z.infer<typeof JobErrorSchema>;
+export const StepRollbackSchema = z.object({
+   status: StepStatusSchema.default("active"),
    error: z.any()
-     .nullish()
+     .nullish(),
+   metrics: JobMetricsSchema.default({})
 });
 export const StepStateSchema = z.object({
    type: StepTypeSchema,
@@ -37,7 +76,11 @@ export const StepStateSchema = z.object({
      .nullish(),
    error: z.any()
      .nullish(),
-   metrics: JobMetricsSchema.default({})
+   metrics: JobMetricsSchema.default({}),
+   /**
+    * State of the step's rollback (compensation), only set once the job has failed for good
+    */
+   rollback: StepRollbackSchema.nullish()
 });
 export type StepState = z.infer<typeof StepStateSchema>;
 export type InpStepState = z.input<typeof StepStateSchema>;
@@ -48,14 +91,36 @@ export const JobLogLevelSchema = z.enum([
    "error"
 ]);
 export type JobLogLevel = z.infer<typeof JobLogLevelSchema>;
-export const JobLogSchema = z.object({
-   ts: z.number(),
-   level: JobLogLevelSchema.default("debug"),
-   message: z.string(),
-   metadata: z.any()
+export const JobCancellationSchema = z.object({
+   reason: z.string()
+     .nullish(),
+   cancelledAt: z.number()
+});
+export type JobCancellation = z.infer<typeof JobCancellationSchema>;
+export const JobRollbackSchema = z.object({
+   status: StepStatusSchema.default("active"),
+   startedAt: z.number()
+     .nullish(),
+   completedAt: z.number()
+     .nullish(),
+   /**
+    * The error that failed the job, kept for when an interrupted rollback is resumed
+    */
+   error: SerializedErrorSchema.nullish()
+});
+export const JobFailureSchema = z.object({
+   /**
+    * The job running the workflow's `onFailure` handler
+    */
+   jobId: z.string(),
+   status: StepStatusSchema.default("active"),
+   result: z.any()
+     .nullish(),
+   error: SerializedErrorSchema.nullish(),
+   completedAt: z.number()
      .nullish()
 });
-export type JobLog = z.infer<typeof JobLogSchema>;
+export type JobFailure = z.infer<typeof JobFailureSchema>;
 export type JobInvocation = z.infer<typeof JobInvocationSchema>;
 export type InpJobInvocation = z.input<typeof JobInvocationSchema>;
 export const JobStateSchema = z.object({
@@ -67,6 +132,11 @@ export const JobStateSchema = z.object({
     * The original data coming with the job
     */
    __source: z.any(),
+   /**
+    * Version of the workflow the job was created with. Jobs from before versioning are version 1.
+    */
+   __version: z.number()
+     .default(1),
    /**
     * Stored invocation data so when this job is completed, an internal function will resume the step/fn that invoked this
     */
@@ -83,26 +153,103 @@ export const JobStateSchema = z.object({
      .default([]),
    /**
     * Storing the state of each step. Due to technical limitations, we cannot retrieve all steps in a function
-    * as we find out on the go.
+    * as we find out on the go. Step states are stored one field per step in the job's hash, this only holds the ones
+    * stored before that (and all of them once hydrated, i.e. through `getActiveJob()`).
     */
    __steps: z.record(
      z.string(),
      StepStateSchema
    ),
    /**
-    * Storing logs for the job
+    * The ids of the steps in the order they first ran, to detect replays that diverge from it
     */
-   __logs: JobLogSchema.array()
-     .default([])
+   __stepOrder: z.string()
+     .array()
+     .default([]),
+   /**
+    * Decisions of `ctx.patched()` by change id, so a job keeps taking the same branch on every replay
+    */
+   __patches: z.record(
+     z.string(),
+     z.boolean()
+   )
+     .default({}),
+   /**
+    * Values of `ctx.now()`, `ctx.random()` & `ctx.uuid()` by kind and call order, so replays get the same values
+    */
+   __recorded: z.record(
+     z.string(),
+     z.any()
+   )
+     .default({}),
+   /**
+    * Storing the progress of rolling back completed steps, after the job has failed for good
+    */
+   __rollback: JobRollbackSchema.nullish(),
+   /**
+    * Set when the job was cancelled through `client.cancel()`
+    */
+   __cancelled: JobCancellationSchema.nullish(),
+   /**
+    * Set once the job has failed for good and the workflow has an `onFailure` handler, with the handler's outcome
+    */
+   __failure: JobFailureSchema.nullish()
 });
 export type JobState = z.infer<typeof JobStateSchema>;
 export type InpJobState = z.input<typeof JobStateSchema>;
 
+/**
+ * Prefix of the fields in a job's hash holding its step states
+ */
+const STEP_FIELD_PREFIX = "oq:step:";
+
+/**
+ * Only this many of the most recent errors are kept in `__errors`
+ */
+const MAX_RECORDED_ERRORS = 100;
+
+/**
+ * Sets fields of a job's hash, unless the job was removed in the meantime
+ */
+const UPDATE_JOB_FIELDS_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+   return 0
+end
+redis.call("HSET", KEYS[1], unpack(ARGV))
+return 1
+`;
+
 export class JobStateManager {
    public __bullJob: BullJob;
    public __workflow: Workflow<any, any, any>;
    public data: JobState | null = null;
    public steps: Record<string, StepStateManager> = {};
+   /**
+    * Ids of the steps used in this run, in the order they were used
+    */
+   public __seenSteps: string[] = [];
+   public __seenStepIds = new Set<string>();
+   /**
+    * Step states stored in the job data, from before they were stored in the job's hash
+    */
+   public __legacySteps: Record<string, StepState> = {};
+   /**
+    * What was last written for each step & the job data, so only what changed is written again
+    */
+   public __writtenSteps = new Map<string, string>();
+   public __writtenData: string | null = null;
+   /**
+    * Errors already in `__errors`, so a step's error isn't recorded again when it fails the job
+    */
+   public __recordedErrors = new WeakSet<object>();
+   /**
+    * How many values of each kind were recorded (or replayed) in this run
+    */
+   public __recordCounts: Record<string, number> = {};
+   /**
+    * Pending write of the job data. Steps can run in parallel, so writes are chained to never interleave.
+    */
+   public __pendingWrite: Promise<unknown> = Promise.resolve();
 
    constructor (
      workflow: Workflow<any, any, any>,
@@ -126,27 +273,90 @@ export class JobStateManager {
    }
 
    /**
-    * Mark the job as complete
+    * Whether the job failed for good earlier and was interrupted while rolling back its steps
     */
-   complete () {
+   isRollingBack () {
+      return this.data?.__rollback?.status === "active";
+   }
+
+   startRollback (error: unknown) {
       if (!this.data) {
          throw new Error("Job data is not initialized");
       }
 
-      this.data.__metrics.completedAt = Date.now();
+      if (!this.data.__rollback) {
+         this.data.__rollback = JobRollbackSchema.parse({
+            status: "active",
+            startedAt: Date.now(),
+            error: serializeError(error)
+         });
+      }
+   }
+
+   completeRollback () {
+      if (!this.data?.__rollback) {
+         throw new Error("Job rollback is not started");
+      }
+
+      this.data.__rollback.status = "completed";
+      this.data.__rollback.completedAt = Date.now();
    }
 
    /**
-    * Finishes the job, regardless of what happened. This is called either after completion or upon errors
-    * during execution. This will wrap up everything and make it ready for saving.
+    * Appends the error to `__errors`, with the step & attempt it happened in
     */
-   finish () {
+   recordError (
+     error: unknown,
+     stepId: string | null,
+     attempt: number
+   ) {
       if (!this.data) {
          throw new Error("Job data is not initialized");
       }
 
-      const stepsData = this.getStepsData();
-      this.data.__steps = stepsData;
+      if (typeof error === "object" && error !== null) {
+         if (this.__recordedErrors.has(error)) {
+            return;
+         }
+         this.__recordedErrors.add(error);
+      }
+
+      const serialized = serializeError(error);
+      this.data.__errors = [
+         ...this.data.__errors,
+         {
+            stepId,
+            attempt,
+            ts: Date.now(),
+            errorMessage: serialized.message,
+            error: serialized
+         } satisfies JobError
+      ].slice(-MAX_RECORDED_ERRORS);
+   }
+
+   /**
+    * Mark the job as cancelled
+    */
+   cancel (reason?: string | null) {
+      if (!this.data) {
+         throw new Error("Job data is not initialized");
+      }
+
+      this.data.__cancelled = {
+         reason: reason ?? null,
+         cancelledAt: Date.now()
+      };
+   }
+
+   /**
+    * Mark the job as complete
+    */
+   complete () {
+      if (!this.data) {
+         throw new Error("Job data is not initialized");
+      }
+
+      this.data.__metrics.completedAt = Date.now();
    }
 
    getStepsData () {
@@ -158,20 +368,40 @@ export class JobStateManager {
       return result;
    }
 
-   forStep (
+   /**
+    * Retrieves the state of a step, loading it from the job's hash on replay. The step is registered right away,
+    * so parallel steps keep the order they were called in.
+    */
+   async forStep (
      stepId: string,
      type: StepType
    ) {
       if (!this.data) {
          throw new Error("Job data is not initialized");
       }
-      const foundExistingManager = this.steps[stepId];
-      if (foundExistingManager) {
-         return foundExistingManager;
+      if (this.__seenStepIds.has(stepId)) {
+         throw new NonDeterminismError(
+           stepId,
+           `Step ${ stepId } is used more than once, step ids must be unique within a run (i.e. include the loop index)`
+         );
+      }
+
+      if (this.__seenSteps.length >= this.data.__stepOrder.length) {
+         this.data.__stepOrder.push(stepId);
+      }
+      this.__seenSteps.push(stepId);
+      this.__seenStepIds.add(stepId);
+
+      const foundExistingState = await this.__loadStep(stepId);
+      if (foundExistingState && foundExistingState.type !== type) {
+         throw new NonDeterminismError(
+           stepId,
+           `Step ${ stepId } ran as a ${ foundExistingState.type } step before, but is now replayed as a ${ type } step`
+         );
       }
 
-      const foundExistingState = this.data.__steps[stepId];
       const stepManager = new StepStateManager({
+         id: stepId,
          initialData: foundExistingState,
          type: type,
          jobStateManager: this
@@ -181,6 +411,81 @@ export class JobStateManager {
       return stepManager;
    }
 
+   async __loadStep (stepId: string): Promise<StepState | undefined> {
+      const raw = await this.__workflow.getConnection()
+        .hget(
+          this.__jobKey(),
+          `${ STEP_FIELD_PREFIX }${ stepId }`
+        );
+      if (!raw) {
+         return this.__legacySteps[stepId];
+      }
+
+      this.__writtenSteps.set(
+        stepId,
+        raw
+      );
+      return StepStateSchema.parse(JSON.parse(raw));
+   }
+
+   /**
+    * Loads the states of all steps into `data.__steps`, for reading the state of a job from outside
+    */
+   async hydrateSteps () {
+      if (!this.data) {
+         throw new Error("Job data is not initialized");
+      }
+
+      const fields = await this.__workflow.getConnection()
+        .hgetall(this.__jobKey());
+      const steps = { ...this.__legacySteps };
+      for (const [ field, raw ] of Object.entries(fields)) {
+         if (field.startsWith(STEP_FIELD_PREFIX)) {
+            steps[field.slice(STEP_FIELD_PREFIX.length)] = StepStateSchema.parse(JSON.parse(raw));
+         }
+      }
+
+      this.data.__steps = {
+         ...steps,
+         ...this.getStepsData()
+      };
+      return this.data.__steps;
+   }
+
+   __jobKey () {
+      return this.__workflow.__wrapper.__getBullQueue()
+        .toKey(this.__bullJob.id!);
+   }
+
+   /**
+    * Returns the value recorded for this call of the kind, producing & recording it on the first run. Calls are
+    * matched by their order, like steps are.
+    */
+   record<T> (
+     kind: string,
+     produce: () => T
+   ): T {
+      if (!this.data) {
+         throw new Error("Job data is not initialized");
+      }
+
+      // A step's `run` isn't replayed once the step completed, so counting its calls would shift the ones after it.
+      // Its result is recorded instead.
+      if (stepLogScope.getStore()) {
+         return produce();
+      }
+
+      const count = this.__recordCounts[kind] ?? 0;
+      this.__recordCounts[kind] = count + 1;
+
+      const key = `${ kind }-${ count }`;
+      if (!(key in this.data.__recorded)) {
+         this.data.__recorded[key] = produce();
+      }
+
+      return this.data.__recorded[key] as T;
+   }
+
    getData () {
       return this.data;
    }
@@ -223,6 +528,8 @@ export class JobStateManager {
       const rawData = this.__getUntouchedJobData();
       const prepared = this.prepareData(rawData);
       this.data = prepared.data;
+      this.__legacySteps = prepared.data.__steps;
+      this.__writtenData = prepared.wasPrepared ? JSON.stringify(rawData) : null;
 
       if (!prepared.wasPrepared) {
          await this.updateData();
@@ -241,26 +548,83 @@ export class JobStateManager {
    }
 
    async updateData (): Promise<JobState> {
-      const data = this.data;
-      
-      // Sync current step states before updating
-      if (data) {
-         data.__steps = this.getStepsData();
-      }
-      
-      const parsed = JobStateSchema.parse(data);
+      const write = this.__pendingWrite.then(() => this.__writeData());
+      this.__pendingWrite = write.catch(() => undefined);
+      return write;
+   }
+
+   /**
+    * Writes the steps that changed since the last write, and the job data if it changed. Steps are written one field
+    * per step in the job's hash, so a write doesn't grow with the number of steps.
+    */
+   async __writeData (): Promise<JobState> {
+      const parsed = JobStateSchema.parse({
+         ...this.data,
+         __steps: this.__legacySteps
+      });
 
       // Checks to prevent infinite nesting
       if (parsed.__source?.["__openqueue"]) {
          throw new Error(`Cannot have source data with __openqueue property`);
       }
 
-      this.data = parsed;
-      await this.__bullJob.updateData(parsed);
-      return parsed;
+      const changedSteps = new Map<string, string>();
+      for (const stepId in this.steps) {
+         const serialized = JSON.stringify(this.steps[stepId].format());
+         if (this.__writtenSteps.get(stepId) !== serialized) {
+            changedSteps.set(
+              stepId,
+              serialized
+            );
+         }
+      }
+
+      const serializedData = JSON.stringify(parsed);
+      const fields = [ ...changedSteps ].flatMap(([ stepId, serialized ]) => [
+         `${ STEP_FIELD_PREFIX }${ stepId }`,
+         serialized
+      ]);
+      if (serializedData !== this.__writtenData) {
+         fields.push(
+           "data",
+           serializedData
+         );
+      }
+
+      if (fields.length) {
+         const updated = await this.__workflow.getConnection()
+           .eval(
+             UPDATE_JOB_FIELDS_SCRIPT,
+             1,
+             this.__jobKey(),
+             ...fields
+           );
+         if (!updated) {
+            throw new Error(`Job ${ this.__bullJob.id } not found, it can't be updated`);
+         }
+      }
+
+      for (const [ stepId, serialized ] of changedSteps) {
+         this.__writtenSteps.set(
+           stepId,
+           serialized
+         );
+      }
+      this.__writtenData = serializedData;
+      this.__bullJob.data = parsed;
+
+      this.data = {
+         ...parsed,
+         __steps: this.data!.__steps
+      };
+      return this.data;
    }
 
-   static prepareData (data: any) {
+   static prepareData (
+     data: any,
+     invocations: InpJobInvocation[] = [],
+     version = 1
+   ) {
       // First assume the data is already prepared, and to avoid duplication we check this
       const firstParse = JobStateSchema.safeParse(data);
       if (firstParse.success) {
@@ -273,11 +637,14 @@ export class JobStateManager {
       const createdJobState = JobStateSchema.parse({
          __openqueue: true,
          __source: data,
-         __invocations: [],
+         __version: version,
+         __invocations: invocations,
          __metrics: {},
          __errors: [],
          __steps: {},
-         __logs: []
+         __stepOrder: [],
+         __patches: {},
+         __recorded: {}
       } satisfies InpJobState);
 
       return {
@@ -287,25 +654,34 @@ export class JobStateManager {
    }
 
    prepareData (data: any) {
-      const prepared = JobStateManager.prepareData(data);
-      const parsedSourceData = this.parseSourceData(prepared.data.__source);
-      prepared.data.__source = parsedSourceData;
+      const prepared = JobStateManager.prepareData(
+        data,
+        [],
+        this.__workflow.__version
+      );
+      // Jobs running the `onFailure` handler hold the failed job instead of workflow data
+      if (!this.__workflow.__isFailureJob(this.__bullJob)) {
+         prepared.data.__source = this.parseSourceData(prepared.data.__source);
+      }
       return prepared;
    }
 }
 
 export type StepStateManagerOptions = {
+   id: string;
    jobStateManager: JobStateManager;
    initialData?: StepState;
    type: StepType;
 };
 
 export class StepStateManager {
+   public id: string;
    public data: StepState;
    public __initialData?: StepState;
    public __jobStateManager: JobStateManager;
 
    constructor (options: StepStateManagerOptions) {
+      this.id = options.id;
       this.__initialData = options.initialData;
       this.__jobStateManager = options.jobStateManager;
 
@@ -331,6 +707,14 @@ export class StepStateManager {
       this.data.metrics.startedAt = Date.now();
    }
 
+   /**
+    * Mark the start of a new attempt at running the step
+    */
+   attempt () {
+      this.start();
+      this.data.metrics.attempts++;
+   }
+
    complete (result: any) {
       this.data.status = "completed";
       this.data.result = result;
@@ -340,9 +724,46 @@ export class StepStateManager {
       );
    }
 
-   error (e: Error) {
+   error (e: unknown) {
       this.data.status = "failed";
-      this.data.error = e?.toString ?? "N/A";
+      this.data.error = serializeError(e);
       this.data.metrics.failedAt = Date.now();
+      this.recordError(e);
+   }
+
+   /**
+    * Records a failed attempt of the step in the job's `__errors`, without failing the step
+    */
+   recordError (e: unknown) {
+      this.__jobStateManager.recordError(
+        e,
+        this.id,
+        this.data.metrics.attempts || this.__jobStateManager.__bullJob.attemptsMade + 1
+      );
+   }
+
+   startRollback () {
+      this.data.rollback = StepRollbackSchema.parse({
+         status: "active",
+         metrics: {
+            startedAt: Date.now()
+         }
+      });
+   }
+
+   completeRollback () {
+      const rollback = this.data.rollback!;
+      rollback.status = "completed";
+      rollback.metrics.completedAt = Date.now();
+      rollback.metrics.duration = rollback.metrics.completedAt - (
+        rollback.metrics.startedAt ?? Date.now()
+      );
+   }
+
+   failRollback (e: unknown) {
+      const rollback = this.data.rollback!;
+      rollback.status = "failed";
+      rollback.error = serializeError(e);
+      rollback.metrics.failedAt = Date.now();
    }
 }
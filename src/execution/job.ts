@@ -1,6 +1,24 @@
 import { JobStateManager } from "@/execution/job-state.ts";
 import { Workflow } from "@/management/workflow.ts";
-import { Job as BullJob } from "bullmq";
+import {
+   Job as BullJob,
+   UnrecoverableError
+} from "bullmq";
+
+export type WorkflowProgress = {
+   /**
+    * Set through `ctx.progress()`, i.e. 4000 or { done: 4000, total: 10000 }
+    */
+   value: number | Record<string, any> | null;
+   message: string | null;
+   /**
+    * Reported automatically, for workflows that don't report their own progress
+    */
+   steps: {
+      completed: number;
+      seen: number;
+   };
+};
 
 export type ActiveJobOptions = {
    bullJob: BullJob;
@@ -28,12 +46,31 @@ export class ActiveJob {
       await this.state.init();
    }
 
+   /**
+    * Whether failing now would fail the job for good, i.e. there are no attempts left or the error is unrecoverable
+    */
+   isFinalAttempt (error?: unknown) {
+      if (error instanceof UnrecoverableError) {
+         return true;
+      }
+
+      const attempts = Math.max(
+        this.__bullJob.opts.attempts ?? 1,
+        1
+      );
+      return this.__bullJob.attemptsMade + 1 >= attempts;
+   }
+
    async changePriority (newPriority: number) {
       await this.__bullJob.changePriority({
          priority: newPriority
       });
    }
 
+   async updateProgress (progress: WorkflowProgress) {
+      await this.__bullJob.updateProgress(progress);
+   }
+
    async delay (amountMs: number) {
       await this.__bullJob.moveToDelayed(
         Date.now() + amountMs,
@@ -0,0 +1,130 @@
+import { JobLogLevel } from "@/execution/job-state.ts";
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Entries are capped to this many characters, longer messages & metadata are truncated
+ */
+export const MAX_LOG_ENTRY_SIZE = 4_096;
+
+const LOG_LEVEL_ORDER: JobLogLevel[] = [
+   "debug",
+   "info",
+   "warn",
+   "error"
+];
+
+export type JobLogEntry = {
+   ts: number;
+   level: JobLogLevel;
+   message: string;
+   metadata: Record<string, any>;
+   workflow: string;
+   jobId: string;
+   /**
+    * The step whose `run` function logged the entry, null for the handler body & internals
+    */
+   stepId: string | null;
+   /**
+    * Attempt of the step, or of the job when logged outside a step
+    */
+   attempt: number;
+};
+
+/**
+ * Receives the log entries of jobs, once they are flushed at a step boundary
+ */
+export type JobLogger = {
+   log: (entry: JobLogEntry) => void | Promise<void>;
+};
+
+/**
+ * The part of a pino (or pino-compatible) logger OpenQueue writes to
+ */
+export type PinoLike = Record<JobLogLevel, (
+  object: Record<string, any>,
+  message: string
+) => void>;
+
+/**
+ * Tracks which step is running, so logs from within a step's `run` function are tagged with it
+ */
+export const stepLogScope = new AsyncLocalStorage<{
+   stepId: string;
+   attempt: number;
+}>();
+
+export function isLogLevelEnabled (
+  level: JobLogLevel,
+  minLevel: JobLogLevel
+) {
+   return LOG_LEVEL_ORDER.indexOf(level) >= LOG_LEVEL_ORDER.indexOf(minLevel);
+}
+
+function truncate (value: string) {
+   if (value.length <= MAX_LOG_ENTRY_SIZE) {
+      return value;
+   }
+
+   return `${ value.slice(
+     0,
+     MAX_LOG_ENTRY_SIZE
+   ) }… (truncated)`;
+}
+
+export function capLogEntry (entry: JobLogEntry): JobLogEntry {
+   const metadata = JSON.stringify(entry.metadata) ?? "{}";
+
+   return {
+      ...entry,
+      message: truncate(entry.message),
+      metadata: metadata.length > MAX_LOG_ENTRY_SIZE ? {
+         truncated: truncate(metadata)
+      } : entry.metadata
+   };
+}
+
+/**
+ * Formats the entry as a single readable line, as it's written to the BullMQ job log
+ */
+export function formatLogEntry (entry: JobLogEntry) {
+   const scope = entry.stepId ? `${ entry.stepId }#${ entry.attempt }` : `job#${ entry.attempt }`;
+   const metadata = Object.keys(entry.metadata).length ? ` ${ JSON.stringify(entry.metadata) }` : "";
+
+   return `${ new Date(entry.ts).toISOString() } ${ entry.level.toUpperCase() } [${ scope }] ${ entry.message }${ metadata }`;
+}
+
+/**
+ * Writes readable lines to the console
+ */
+export const consoleLogger: JobLogger = {
+   log: entry => {
+      console[entry.level](`[${ entry.workflow }:${ entry.jobId }] ${ formatLogEntry(entry) }`);
+   }
+};
+
+/**
+ * Writes one JSON object per line to stdout, for log pipelines
+ */
+export const jsonLogger: JobLogger = {
+   log: entry => {
+      process.stdout.write(`${ JSON.stringify(entry) }\n`);
+   }
+};
+
+/**
+ * Writes to a pino (or pino-compatible) logger, i.e. `pinoLogger(pino())`
+ */
+export function pinoLogger (logger: PinoLike): JobLogger {
+   return {
+      log: ({
+         level,
+         message,
+         ...fields
+      }) => {
+         logger[level](
+           fields,
+           message
+         );
+      }
+   };
+}
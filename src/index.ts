@@ -1 +1,3 @@
 export * from "./OpenQueue";
+export * from "./execution/errors";
+export * from "./execution/logger";
@@ -0,0 +1,209 @@
+import { OpenQueueClient } from "@/management/client.ts";
+import { EventWaiter } from "@/management/events.ts";
+import { sleep } from "@/utils/fns.ts";
+import {
+   createHmac,
+   randomBytes,
+   timingSafeEqual
+} from "node:crypto";
+import { z } from "zod";
+
+/**
+ * How long (ms) `resolve()` waits for the job to accept or reject a payload
+ */
+const OUTCOME_WAIT_TIMEOUT = 10_000;
+const OUTCOME_POLL_INTERVAL = 250;
+/**
+ * How long (ms) the job's outcome of a payload is kept for `resolve()` to pick up
+ */
+const OUTCOME_TTL = 60_000;
+
+export type ApprovalClaims = {
+   workflow: string;
+   jobId: string;
+   stepId: string;
+   nonce: string;
+};
+
+/**
+ * Whether the waiting job accepted a resolved payload, with the validation issues if it didn't
+ */
+export type ApprovalOutcome = {
+   accepted: boolean;
+   issues: z.ZodIssue[] | null;
+};
+
+/**
+ * Creates & resolves the signed one-time tokens of `ctx.waitForApproval()`. A token is valid until the job accepts
+ * a payload for it, or until the approval times out.
+ */
+export class ApprovalManager {
+   constructor (public __client: OpenQueueClient<any>) {
+   }
+
+   async create (
+     waiter: EventWaiter,
+     timeout: number
+   ) {
+      const claims: ApprovalClaims = {
+         workflow: waiter.workflow,
+         jobId: waiter.jobId,
+         stepId: waiter.stepId,
+         nonce: randomBytes(16)
+           .toString("hex")
+      };
+
+      await this.__client.__getConnection()
+        .set(
+          this.__tokenKey(claims.nonce),
+          JSON.stringify(claims),
+          "PX",
+          timeout
+        );
+
+      return {
+         token: this.__sign(claims),
+         nonce: claims.nonce
+      };
+   }
+
+   /**
+    * Verifies the token and delivers the payload to the waiting job, resuming it. The job validates the payload
+    * against the schema of the step it's running, this waits for it and throws if the job rejects it. `pending` is
+    * true if the job didn't get to it in time, it's still validated once it does.
+    */
+   async resolve<T = any> (
+     token: string,
+     payload: T
+   ) {
+      const claims = this.__verify(token);
+      const raw = await this.__client.__getConnection()
+        .get(this.__tokenKey(claims.nonce));
+      if (!raw) {
+         throw new Error("Approval token is invalid, expired or already used");
+      }
+
+      const delivered = await this.__client.__events.deliver(
+        claims,
+        {
+           event: "approval",
+           payload,
+           ts: Date.now()
+        }
+      );
+      if (!delivered) {
+         throw new Error("Approval has already been resolved");
+      }
+
+      await this.__client.__events.__resume(claims);
+
+      const outcome = await this.__waitForOutcome(claims.nonce);
+      if (outcome && !outcome.accepted) {
+         throw new Error(`Approval payload is invalid: ${ JSON.stringify(outcome.issues) }`);
+      }
+
+      return {
+         workflow: claims.workflow,
+         jobId: claims.jobId,
+         pending: !outcome
+      };
+   }
+
+   /**
+    * Reports whether the job accepted the payload it was resumed with, for `resolve()` waiting on it
+    */
+   async reportOutcome (
+     nonce: string,
+     outcome: ApprovalOutcome
+   ) {
+      await this.__client.__getConnection()
+        .set(
+          this.__outcomeKey(nonce),
+          JSON.stringify(outcome),
+          "PX",
+          OUTCOME_TTL
+        );
+   }
+
+   async __waitForOutcome (nonce: string): Promise<ApprovalOutcome | null> {
+      const connection = this.__client.__getConnection();
+      const waitUntil = Date.now() + OUTCOME_WAIT_TIMEOUT;
+
+      while (Date.now() < waitUntil) {
+         const raw = await connection.getdel(this.__outcomeKey(nonce));
+         if (raw) {
+            return JSON.parse(raw);
+         }
+
+         await sleep(OUTCOME_POLL_INTERVAL);
+      }
+
+      return null;
+   }
+
+   /**
+    * Invalidates the token, once the job has accepted a payload or timed out
+    */
+   async consume (nonce: string) {
+      await this.__client.__getConnection()
+        .del(this.__tokenKey(nonce));
+   }
+
+   __sign (claims: ApprovalClaims) {
+      const body = Buffer.from(JSON.stringify(claims))
+        .toString("base64url");
+
+      return `${ body }.${ this.__signature(body) }`;
+   }
+
+   __verify (token: string): ApprovalClaims {
+      const [ body, signature ] = token.split(".");
+      if (!body || !signature) {
+         throw new Error("Approval token is malformed");
+      }
+
+      const expected = Buffer.from(this.__signature(body));
+      const given = Buffer.from(signature);
+      if (expected.length !== given.length || !timingSafeEqual(
+        expected,
+        given
+      )) {
+         throw new Error("Approval token has an invalid signature");
+      }
+
+      return JSON.parse(Buffer.from(
+        body,
+        "base64url"
+      )
+        .toString());
+   }
+
+   __signature (body: string) {
+      const secret = this.__client.__options.secret;
+      if (!secret) {
+         throw new Error("A client secret is required to use approvals");
+      }
+
+      return createHmac(
+        "sha256",
+        secret
+      )
+        .update(body)
+        .digest("base64url");
+   }
+
+   __tokenKey (nonce: string) {
+      return this.__client.__key(
+        "approvals",
+        nonce
+      );
+   }
+
+   __outcomeKey (nonce: string) {
+      return this.__client.__key(
+        "approvals",
+        nonce,
+        "outcome"
+      );
+   }
+}
@@ -1,3 +1,10 @@
+import { JobLogLevel } from "@/execution/job-state.ts";
+import { WorkflowProgress } from "@/execution/job.ts";
+import { JobLogger } from "@/execution/logger.ts";
+import { ApprovalManager } from "@/management/approvals.ts";
+import { DeadLetterQueue } from "@/management/dead-letters.ts";
+import { EventBus } from "@/management/events.ts";
+import { ScheduleManager } from "@/management/schedules.ts";
 import { Workflow } from "@/management/workflow.ts";
 import {
    DefaultJobOptions,
@@ -10,6 +17,16 @@ export type ClientOptions = {
    redisUrl: string;
    prefix?: string;
    defaultJobOptions?: InpDefaultJobOptions;
+   secret?: string;
+   /**
+    * Receives the logs of jobs as they're flushed, besides the BullMQ job log. See `consoleLogger`, `jsonLogger` and
+    * `pinoLogger()`.
+    */
+   logger?: JobLogger;
+   /**
+    * The least severe level of job logs to keep, defaults to "info"
+    */
+   logLevel?: JobLogLevel;
 };
 
 export class OpenQueueClient<
@@ -19,6 +36,12 @@ export class OpenQueueClient<
    public __jobOptions: DefaultJobOptions;
    public __connection: Redis;
    public readonly __workflows: $Workflows;
+   public __events: EventBus;
+   public __approvals: ApprovalManager;
+   /**
+    * Create & manage schedules at runtime, i.e. one per user
+    */
+   public schedules: ScheduleManager<$Workflows>;
 
    constructor (
      public __options: ClientOptions,
@@ -27,6 +50,9 @@ export class OpenQueueClient<
       this.__jobOptions = DefaultJobOptionsSchema.parse(__options.defaultJobOptions ?? {});
       this.__connection = this.#createConnection();
       this.__workflows = workflows;
+      this.__events = new EventBus(this);
+      this.__approvals = new ApprovalManager(this);
+      this.schedules = new ScheduleManager<$Workflows>(this);
    }
 
    getWorkflow<Id extends $WorkflowIds> (id: Id) {
@@ -58,23 +84,116 @@ export class OpenQueueClient<
    }
 
    async stop () {
-      // Stop all workflow workers and queues
+      // Stop all workflow workers, queues and queue event listeners
       await Promise.all(
         Object.values(this.__workflows)
-          .map(async workflow => {
-             if (workflow.__wrapper.__bullWorker) {
-                await workflow.__wrapper.__bullWorker.close();
-             }
-             if (workflow.__wrapper.__bullQueue) {
-                await workflow.__wrapper.__bullQueue.close();
-             }
-          })
+          .map(workflow => workflow.__wrapper.stop())
       );
       
       // Close the Redis connection
       await this.__connection.quit();
    }
 
+   /**
+    * Sends an event to all jobs waiting for it through `ctx.waitForEvent()`. Jobs whose `match` fits the payload
+    * are resumed with it.
+    */
+   async sendEvent<T = any> (
+     name: string,
+     payload: T
+   ) {
+      return this.__events.send(
+        name,
+        payload
+      );
+   }
+
+   /**
+    * Resolves an approval created with `ctx.waitForApproval()`, resuming the waiting job with the payload.
+    * Each token can only be used once.
+    */
+   async resolveApproval<T = any> (
+     token: string,
+     payload: T
+   ) {
+      return this.__approvals.resolve(
+        token,
+        payload
+      );
+   }
+
+   /**
+    * Wakes a sleeping job up early, ending its current `ctx.sleep()`, `ctx.sleepUntil()` or `ctx.repeat()` delay.
+    * Returns false if the job isn't sleeping (in the given step).
+    */
+   async wake (
+     workflow: $Workflows[$WorkflowIds],
+     jobId: string,
+     stepId?: string
+   ) {
+      return workflow.wakeJob(
+        jobId,
+        stepId
+      );
+   }
+
+   /**
+    * Cancels a job. It stops at its next step boundary, and ends up failed with its cancellation recorded
+    * in `__cancelled` of its state. An active job that finishes without reaching another step boundary isn't
+    * cancelled, it completes (or fails) as usual.
+    */
+   async cancel (
+     workflow: $Workflows[$WorkflowIds],
+     jobId: string,
+     reason?: string
+   ) {
+      return workflow.cancelJob(
+        jobId,
+        reason
+      );
+   }
+
+   /**
+    * Calls back whenever the job reports progress, until the returned function is called
+    */
+   onProgress (
+     workflow: $Workflows[$WorkflowIds],
+     jobId: string,
+     callback: (progress: WorkflowProgress) => void
+   ) {
+      const queueEvents = workflow.__wrapper.__getQueueEvents();
+      const listener = (event: {
+         jobId: string;
+         data: unknown;
+      }) => {
+         if (event.jobId === jobId) {
+            callback(event.data as WorkflowProgress);
+         }
+      };
+
+      queueEvents.on(
+        "progress",
+        listener
+      );
+
+      return () => {
+         queueEvents.off(
+           "progress",
+           listener
+         );
+      };
+   }
+
+   /**
+    * The dead-letter queue of the workflow, to list, redrive & purge the jobs that failed for good
+    */
+   deadLetters (workflow: $Workflows[$WorkflowIds]) {
+      return new DeadLetterQueue(
+        this,
+        workflow
+      );
+   }
+
    __getWorkflows () {
       return Object.values(this.__workflows);
    }
@@ -92,6 +211,19 @@ export class OpenQueueClient<
       return this.__jobOptions;
    }
 
+   /**
+    * Builds a redis key for openqueue's own data, scoped to the client prefix
+    */
+   __key (...parts: string[]) {
+      return [
+         this.__options.prefix,
+         "openqueue",
+         ...parts
+      ]
+        .filter(Boolean)
+        .join(":");
+   }
+
    #createConnection () {
       const parsed = new URL(this.__options.redisUrl);
       return new Redis({
@@ -0,0 +1,235 @@
+import {
+   JobState,
+   JobStateSchema,
+   SerializedErrorSchema
+} from "@/execution/job-state.ts";
+import { OpenQueueClient } from "@/management/client.ts";
+import { Workflow } from "@/management/workflow.ts";
+import { z } from "zod";
+
+/**
+ * Dead letters are redriven & purged this many at a time
+ */
+const DEAD_LETTER_BATCH_SIZE = 100;
+
+export const DeadLetterSchema = z.object({
+   jobId: z.string(),
+   failedAt: z.number(),
+   attempts: z.number(),
+   error: SerializedErrorSchema.nullish(),
+   /**
+    * State of the job when it failed, including all of its steps
+    */
+   state: JobStateSchema
+});
+export type DeadLetter = z.infer<typeof DeadLetterSchema>;
+
+export type ListDeadLettersOptions = {
+   /**
+    * Defaults to 0, dead letters are ordered from the oldest failure
+    */
+   offset?: number;
+   /**
+    * Defaults to 100
+    */
+   limit?: number;
+};
+
+/**
+ * Keeps the jobs of a workflow that failed for good, when it has `deadLetter` enabled. Each dead letter is stored in
+ * a redis hash per workflow, and indexed by when it failed in a sorted set so it can be paged through.
+ */
+export class DeadLetterQueue {
+   constructor (
+     public __client: OpenQueueClient<any>,
+     public __workflow: Workflow<any, any, any>
+   ) {
+   }
+
+   async add (deadLetter: DeadLetter) {
+      const record = DeadLetterSchema.parse(deadLetter);
+
+      await this.__client.__getConnection()
+        .multi()
+        .hset(
+          this.__recordsKey(),
+          record.jobId,
+          JSON.stringify(record)
+        )
+        .zadd(
+          this.__indexKey(),
+          record.failedAt,
+          record.jobId
+        )
+        .exec();
+   }
+
+   async get (jobId: string): Promise<DeadLetter | null> {
+      const raw = await this.__client.__getConnection()
+        .hget(
+          this.__recordsKey(),
+          jobId
+        );
+
+      return raw ? DeadLetterSchema.parse(JSON.parse(raw)) : null;
+   }
+
+   async list (options: ListDeadLettersOptions = {}) {
+      const offset = options.offset ?? 0;
+      const limit = options.limit ?? 100;
+      const connection = this.__client.__getConnection();
+
+      const [ total, jobIds ] = await Promise.all([
+         connection.zcard(this.__indexKey()),
+         connection.zrange(
+           this.__indexKey(),
+           offset,
+           offset + limit - 1
+         )
+      ]);
+
+      return {
+         total,
+         deadLetters: await this.__getMany(jobIds)
+      };
+   }
+
+   /**
+    * Creates a new job for each dead letter, or for all of them when no ids are given, and removes the dead letters.
+    * The new jobs keep the results of completed steps, so they resume where the failed jobs stopped. Steps that
+    * failed or were rolled back run again.
+    */
+   async redrive (jobIds?: string[]) {
+      const redriven: Array<{
+         jobId: string;
+         redrivenJobId: string;
+      }> = [];
+
+      for (const batch of await this.__batches(jobIds)) {
+         const deadLetters = await this.__getMany(batch);
+         if (!deadLetters.length) {
+            continue;
+         }
+
+         const created = await this.__workflow.__wrapper.__getBullQueue()
+           .addBulk(deadLetters.map(deadLetter => (
+             {
+                name: "default",
+                data: this.__prepareRedrive(deadLetter.state),
+                opts: this.__workflow.__wrapper.__generateJobOptions({})
+             }
+           )));
+         await this.__remove(deadLetters.map(deadLetter => deadLetter.jobId));
+
+         redriven.push(...deadLetters.map((
+           deadLetter,
+           index
+         ) => (
+           {
+              jobId: deadLetter.jobId,
+              redrivenJobId: created[index].id!
+           }
+         )));
+      }
+
+      return redriven;
+   }
+
+   /**
+    * Removes the dead letters, or all of them when no ids are given. Returns how many were removed.
+    */
+   async purge (jobIds?: string[]) {
+      let removed = 0;
+      for (const batch of await this.__batches(jobIds)) {
+         removed += await this.__remove(batch);
+      }
+
+      return removed;
+   }
+
+   /**
+    * The state of the job to redrive the dead letter as. Completed steps are kept, unless they were rolled back.
+    */
+   __prepareRedrive (state: JobState): JobState {
+      const steps = Object.fromEntries(Object.entries(state.__steps)
+        .filter(([ , step ]) => step.status === "completed" && !step.rollback));
+
+      return JobStateSchema.parse({
+         ...state,
+         __steps: steps,
+         __metrics: {},
+         __rollback: null,
+         __cancelled: null,
+         __failure: null
+      });
+   }
+
+   async __getMany (jobIds: string[]) {
+      if (!jobIds.length) {
+         return [];
+      }
+
+      const raw = await this.__client.__getConnection()
+        .hmget(
+          this.__recordsKey(),
+          ...jobIds
+        );
+
+      return raw.filter(entry => entry !== null)
+        .map(entry => DeadLetterSchema.parse(JSON.parse(entry)));
+   }
+
+   async __remove (jobIds: string[]) {
+      if (!jobIds.length) {
+         return 0;
+      }
+
+      const [ [ , removed ] ] = await this.__client.__getConnection()
+        .multi()
+        .hdel(
+          this.__recordsKey(),
+          ...jobIds
+        )
+        .zrem(
+          this.__indexKey(),
+          ...jobIds
+        )
+        .exec() as [ [ Error | null, number ] ];
+
+      return removed;
+   }
+
+   async __batches (jobIds?: string[]) {
+      const ids = jobIds ?? await this.__client.__getConnection()
+        .zrange(
+          this.__indexKey(),
+          0,
+          -1
+        );
+
+      const batches: string[][] = [];
+      for (let index = 0; index < ids.length; index += DEAD_LETTER_BATCH_SIZE) {
+         batches.push(ids.slice(
+           index,
+           index + DEAD_LETTER_BATCH_SIZE
+         ));
+      }
+
+      return batches;
+   }
+
+   __recordsKey () {
+      return this.__client.__key(
+        "dead-letters",
+        this.__workflow.__id
+      );
+   }
+
+   __indexKey () {
+      return this.__client.__key(
+        "dead-letters",
+        this.__workflow.__id,
+        "index"
+      );
+   }
+}
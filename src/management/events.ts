@@ -0,0 +1,194 @@
+import { OpenQueueClient } from "@/management/client.ts";
+import { matchesPayload } from "@/utils/fns.ts";
+import { Queue as BullQueue } from "bullmq";
+
+export type EventWaiter = {
+   workflow: string;
+   jobId: string;
+   stepId: string;
+   match?: Record<string, unknown> | null;
+};
+
+export type EventDelivery<T = any> = {
+   event: string;
+   payload: T;
+   ts: number;
+};
+
+/**
+ * Keeps track of jobs waiting for events, and delivers sent events to them. Waiters are stored in a redis hash per
+ * event name, and delivered payloads are stored per job step until the job resumes and picks them up.
+ */
+export class EventBus {
+   constructor (public __client: OpenQueueClient<any>) {
+   }
+
+   async register (
+     event: string,
+     waiter: EventWaiter
+   ) {
+      await this.__client.__getConnection()
+        .hset(
+          this.__eventKey(event),
+          this.__waiterField(waiter),
+          JSON.stringify(waiter)
+        );
+   }
+
+   async unregister (
+     event: string,
+     waiter: EventWaiter
+   ) {
+      await this.__client.__getConnection()
+        .hdel(
+          this.__eventKey(event),
+          this.__waiterField(waiter)
+        );
+   }
+
+   /**
+    * Delivers the event to every job waiting for it with a matching payload, and resumes those jobs.
+    * Returns the jobs that were resumed.
+    */
+   async send<T = any> (
+     event: string,
+     payload: T
+   ) {
+      const connection = this.__client.__getConnection();
+      const rawWaiters = await connection.hgetall(this.__eventKey(event));
+      const resumed: Array<{
+         workflow: string;
+         jobId: string;
+      }> = [];
+
+      for (const [ field, rawWaiter ] of Object.entries(rawWaiters)) {
+         const waiter = JSON.parse(rawWaiter) as EventWaiter;
+         if (!matchesPayload(
+           payload,
+           waiter.match
+         )) {
+            continue;
+         }
+
+         const delivered = await this.deliver(
+           waiter,
+           {
+              event,
+              payload,
+              ts: Date.now()
+           }
+         );
+         await connection.hdel(
+           this.__eventKey(event),
+           field
+         );
+
+         if (delivered) {
+            await this.__resume(waiter);
+            resumed.push({
+               workflow: waiter.workflow,
+               jobId: waiter.jobId
+            });
+         }
+      }
+
+      return resumed;
+   }
+
+   /**
+    * Stores the delivery for the waiting step. Only the first delivery is kept, returns false if the step already
+    * had one.
+    */
+   async deliver (
+     waiter: EventWaiter,
+     delivery: EventDelivery
+   ) {
+      const result = await this.__client.__getConnection()
+        .set(
+          this.__deliveryKey(waiter),
+          JSON.stringify(delivery),
+          "NX"
+        );
+
+      return result === "OK";
+   }
+
+   /**
+    * Promotes the waiting job. The sending client doesn't have to register the waiter's workflow (i.e. a web process
+    * with only some of them), its queue is looked up by name then.
+    */
+   async __resume (waiter: EventWaiter) {
+      const workflow = this.__client.__workflows[waiter.workflow];
+      if (workflow) {
+         return workflow.__promoteJob(waiter.jobId);
+      }
+
+      const queue = new BullQueue(
+        waiter.workflow,
+        {
+           connection: this.__client.__getConnection()
+        }
+      );
+      try {
+         const bullJob = await queue.getJob(waiter.jobId);
+         if (!bullJob || !(
+           await bullJob.isDelayed()
+         )) {
+            return false;
+         }
+
+         await bullJob.promote();
+         return true;
+      }
+      catch (e) {
+         // The job might have been picked up in the meantime
+         return false;
+      }
+      finally {
+         await queue.close();
+      }
+   }
+
+   async hasDelivery (waiter: EventWaiter) {
+      const exists = await this.__client.__getConnection()
+        .exists(this.__deliveryKey(waiter));
+
+      return exists === 1;
+   }
+
+   /**
+    * Retrieves the delivery for the step, if there is one. It's only removed through `clearDelivery()` once the step
+    * has saved it, so a crash in between doesn't lose it.
+    */
+   async getDelivery<T = any> (waiter: EventWaiter): Promise<EventDelivery<T> | null> {
+      const raw = await this.__client.__getConnection()
+        .get(this.__deliveryKey(waiter));
+
+      return raw ? JSON.parse(raw) : null;
+   }
+
+   async clearDelivery (waiter: EventWaiter) {
+      await this.__client.__getConnection()
+        .del(this.__deliveryKey(waiter));
+   }
+
+   __eventKey (event: string) {
+      return this.__client.__key(
+        "events",
+        event
+      );
+   }
+
+   __deliveryKey (waiter: EventWaiter) {
+      return this.__client.__key(
+        "deliveries",
+        waiter.workflow,
+        waiter.jobId,
+        waiter.stepId
+      );
+   }
+
+   __waiterField (waiter: EventWaiter) {
+      return `${ waiter.workflow }:${ waiter.jobId }:${ waiter.stepId }`;
+   }
+}
@@ -0,0 +1,167 @@
+import { MapItemResult } from "@/execution/executor.ts";
+import { OpenQueueClient } from "@/management/client.ts";
+import { Job as BullJob } from "bullmq";
+
+/**
+ * Results are read back this many at a time once every child has finished
+ */
+const MAP_RESULT_BATCH_SIZE = 1_000;
+/**
+ * Results of a map step that never completes (i.e. its job was removed) expire after this long (ms) without a child
+ * finishing
+ */
+const MAP_RESULT_TTL = 30 * 24 * 60 * 60 * 1_000;
+
+/**
+ * Collects the results of the child jobs of a `ctx.map()` step, by item index. Children push their result here once
+ * they finish, so the step never has to look them up. Results are stored in a redis hash per step, and the indexes of
+ * the unfinished children in a set, so children whose result got lost can be found again.
+ */
+export class MapResultStore {
+   constructor (
+     public __client: OpenQueueClient<any>,
+     public __workflowId: string,
+     public __jobId: string,
+     public __stepId: string
+   ) {
+   }
+
+   /**
+    * Tracks the children created for the indexes until their results are in
+    */
+   async addPending (indexes: number[]) {
+      if (!indexes.length) {
+         return;
+      }
+
+      await this.__client.__getConnection()
+        .multi()
+        .sadd(
+          this.__pendingKey(),
+          ...indexes
+        )
+        .pexpire(
+          this.__pendingKey(),
+          MAP_RESULT_TTL
+        )
+        .exec();
+   }
+
+   /**
+    * Stores the result of the child for the index. The first result stored for an index is kept.
+    */
+   async record (
+     index: number,
+     result: MapItemResult
+   ) {
+      await this.__client.__getConnection()
+        .multi()
+        .hsetnx(
+          this.__resultsKey(),
+          String(index),
+          JSON.stringify(result)
+        )
+        .pexpire(
+          this.__resultsKey(),
+          MAP_RESULT_TTL
+        )
+        .srem(
+          this.__pendingKey(),
+          index
+        )
+        .exec();
+   }
+
+   /**
+    * Stores the result of a finished child job
+    */
+   async recordJob (
+     index: number,
+     bullJob: BullJob,
+     status: "completed" | "failed"
+   ) {
+      await this.record(
+        index,
+        status === "completed" ? {
+           success: true,
+           result: bullJob.returnvalue
+        } : {
+           success: false,
+           error: bullJob.failedReason ?? "N/A"
+        }
+      );
+   }
+
+   /**
+    * How many children have finished
+    */
+   async count () {
+      return this.__client.__getConnection()
+        .hlen(this.__resultsKey());
+   }
+
+   async getPending () {
+      const indexes = await this.__client.__getConnection()
+        .smembers(this.__pendingKey());
+
+      return indexes.map(Number);
+   }
+
+   /**
+    * The results of all children, in item order
+    */
+   async getAll (total: number) {
+      const results: MapItemResult[] = [];
+      for (let start = 0; start < total; start += MAP_RESULT_BATCH_SIZE) {
+         const indexes = Array.from(
+           { length: Math.min(
+             MAP_RESULT_BATCH_SIZE,
+             total - start
+           ) },
+           (
+             _,
+             i
+           ) => String(start + i)
+         );
+         const raw = await this.__client.__getConnection()
+           .hmget(
+             this.__resultsKey(),
+             ...indexes
+           );
+
+         results.push(...raw.map(entry => entry === null ? {
+            success: false as const,
+            error: "Result not found"
+         } : JSON.parse(entry)));
+      }
+
+      return results;
+   }
+
+   async clear () {
+      await this.__client.__getConnection()
+        .del(
+          this.__resultsKey(),
+          this.__pendingKey()
+        );
+   }
+
+   __resultsKey () {
+      return this.__client.__key(
+        "map-results",
+        this.__workflowId,
+        this.__jobId,
+        this.__stepId
+      );
+   }
+
+   __pendingKey () {
+      return this.__client.__key(
+        "map-results",
+        this.__workflowId,
+        this.__jobId,
+        this.__stepId,
+        "pending"
+      );
+   }
+}
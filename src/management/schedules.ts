@@ -0,0 +1,304 @@
+import { OpenQueueClient } from "@/management/client.ts";
+import { Workflow } from "@/management/workflow.ts";
+import {
+   DurationSchema,
+   InpDuration
+} from "@/utils/schema.ts";
+import { z } from "zod";
+
+export const ScheduleRecordSchema = z.object({
+   key: z.string(),
+   cron: z.string()
+     .nullish(),
+   every: z.number()
+     .nullish(),
+   timezone: z.string()
+     .nullish(),
+   data: z.any(),
+   paused: z.boolean()
+     .default(false),
+   createdAt: z.number(),
+   updatedAt: z.number()
+});
+export type ScheduleRecord = z.infer<typeof ScheduleRecordSchema>;
+
+type ScheduleTiming = {
+   /**
+    * Cron pattern for when to run, i.e. "0 9 * * 1" for every Monday at 9:00
+    */
+   cron: string;
+   every?: never;
+   timezone?: string;
+} | {
+   /**
+    * Run at a fixed interval, i.e. "1h"
+    */
+   every: InpDuration;
+   cron?: never;
+   timezone?: never;
+};
+
+export type CreateScheduleOptions<W extends Workflow<any, any, any>> = ScheduleTiming & {
+   /**
+    * Identifies the schedule within the workflow, i.e. "user-123"
+    */
+   key: string;
+   data: z.input<W["__schema"]>;
+};
+
+export type UpdateScheduleOptions<W extends Workflow<any, any, any>> = Partial<ScheduleTiming> & {
+   data?: z.input<W["__schema"]>;
+};
+
+/**
+ * Manages schedules created at runtime, i.e. one per user. Each schedule is a BullMQ job scheduler, and its
+ * definition is also stored in a redis hash per workflow so paused schedules can be listed & resumed.
+ */
+export class ScheduleManager<
+  $Workflows extends Record<string, Workflow<any, any, any>>,
+  $Workflow extends Workflow<any, any, any> = $Workflows[keyof $Workflows]
+> {
+   constructor (public __client: OpenQueueClient<$Workflows>) {
+   }
+
+   async create<W extends $Workflow> (
+     workflow: W,
+     options: CreateScheduleOptions<W>
+   ) {
+      if (await this.get(
+        workflow,
+        options.key
+      )) {
+         throw new Error(`Schedule ${ options.key } already exists for workflow ${ workflow.__id }`);
+      }
+
+      if (!options.cron && options.every === undefined) {
+         throw new Error(`Schedule ${ options.key } needs either a cron pattern or an interval`);
+      }
+
+      const now = Date.now();
+      const record = ScheduleRecordSchema.parse({
+         key: options.key,
+         cron: options.cron ?? null,
+         every: DurationSchema.optional()
+           .parse(options.every) ?? null,
+         timezone: options.timezone ?? null,
+         data: workflow.__schema.parse(options.data),
+         paused: false,
+         createdAt: now,
+         updatedAt: now
+      } satisfies ScheduleRecord);
+
+      await this.__register(
+        workflow,
+        record
+      );
+      await this.__save(
+        workflow,
+        record
+      );
+
+      return record;
+   }
+
+   async get<W extends $Workflow> (
+     workflow: W,
+     key: string
+   ): Promise<ScheduleRecord | null> {
+      const raw = await this.__client.__getConnection()
+        .hget(
+          this.__recordsKey(workflow),
+          key
+        );
+
+      return raw ? ScheduleRecordSchema.parse(JSON.parse(raw)) : null;
+   }
+
+   /**
+    * Lists all schedules of the workflow, with the time of their next run (null when paused)
+    */
+   async list<W extends $Workflow> (workflow: W) {
+      const raw = await this.__client.__getConnection()
+        .hgetall(this.__recordsKey(workflow));
+      const records = Object.values(raw)
+        .map(entry => ScheduleRecordSchema.parse(JSON.parse(entry)))
+        .sort((
+          a,
+          b
+        ) => a.key.localeCompare(b.key));
+
+      return Promise.all(records.map(async record => {
+         const scheduler = record.paused ? null : await workflow.__wrapper.__getBullQueue()
+           .getJobScheduler(workflow.__wrapper.__scheduleId(record.key));
+
+         return {
+            ...record,
+            next: scheduler?.next ?? null
+         };
+      }));
+   }
+
+   async update<W extends $Workflow> (
+     workflow: W,
+     key: string,
+     options: UpdateScheduleOptions<W>
+   ) {
+      const existing = await this.__getOrThrow(
+        workflow,
+        key
+      );
+      // Timing fields are merged one by one, switching between a cron pattern & an interval clears the other
+      const timing = options.every !== undefined ? {
+         cron: null,
+         every: DurationSchema.parse(options.every),
+         timezone: null
+      } : {
+         cron: options.cron ?? existing.cron,
+         every: options.cron !== undefined ? null : existing.every,
+         timezone: options.timezone !== undefined ? options.timezone : existing.timezone
+      };
+      if (!timing.cron && timing.timezone) {
+         throw new Error(`Schedule ${ key } runs at an interval, a timezone only applies to cron patterns`);
+      }
+
+      const record = ScheduleRecordSchema.parse({
+         ...existing,
+         ...timing,
+         data: options.data !== undefined ? workflow.__schema.parse(options.data) : existing.data,
+         updatedAt: Date.now()
+      } satisfies ScheduleRecord);
+
+      if (!record.paused) {
+         await this.__register(
+           workflow,
+           record
+         );
+      }
+      await this.__save(
+        workflow,
+        record
+      );
+
+      return record;
+   }
+
+   /**
+    * Stops the schedule from creating jobs, until it's resumed. Jobs already created are not affected.
+    */
+   async pause<W extends $Workflow> (
+     workflow: W,
+     key: string
+   ) {
+      const existing = await this.__getOrThrow(
+        workflow,
+        key
+      );
+
+      await workflow.__wrapper.__getBullQueue()
+        .removeJobScheduler(workflow.__wrapper.__scheduleId(key));
+
+      const record = {
+         ...existing,
+         paused: true,
+         updatedAt: Date.now()
+      };
+      await this.__save(
+        workflow,
+        record
+      );
+
+      return record;
+   }
+
+   async resume<W extends $Workflow> (
+     workflow: W,
+     key: string
+   ) {
+      const existing = await this.__getOrThrow(
+        workflow,
+        key
+      );
+      const record = {
+         ...existing,
+         paused: false,
+         updatedAt: Date.now()
+      };
+
+      await this.__register(
+        workflow,
+        record
+      );
+      await this.__save(
+        workflow,
+        record
+      );
+
+      return record;
+   }
+
+   async remove<W extends $Workflow> (
+     workflow: W,
+     key: string
+   ) {
+      await workflow.__wrapper.__getBullQueue()
+        .removeJobScheduler(workflow.__wrapper.__scheduleId(key));
+
+      const removed = await this.__client.__getConnection()
+        .hdel(
+          this.__recordsKey(workflow),
+          key
+        );
+
+      return removed > 0;
+   }
+
+   async __getOrThrow (
+     workflow: Workflow<any, any, any>,
+     key: string
+   ) {
+      const existing = await this.get(
+        workflow as $Workflow,
+        key
+      );
+      if (!existing) {
+         throw new Error(`Schedule ${ key } not found for workflow ${ workflow.__id }`);
+      }
+
+      return existing;
+   }
+
+   async __register (
+     workflow: Workflow<any, any, any>,
+     record: ScheduleRecord
+   ) {
+      await workflow.__wrapper.__upsertScheduler(
+        workflow.__wrapper.__scheduleId(record.key),
+        record.cron ? {
+           pattern: record.cron,
+           tz: record.timezone ?? undefined
+        } : {
+           every: record.every!
+        },
+        record.data
+      );
+   }
+
+   async __save (
+     workflow: Workflow<any, any, any>,
+     record: ScheduleRecord
+   ) {
+      await this.__client.__getConnection()
+        .hset(
+          this.__recordsKey(workflow),
+          record.key,
+          JSON.stringify(record)
+        );
+   }
+
+   __recordsKey (workflow: Workflow<any, any, any>) {
+      return this.__client.__key(
+        "schedules",
+        workflow.__id
+      );
+   }
+}
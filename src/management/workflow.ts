@@ -1,22 +1,73 @@
 import { ExecutionContext } from "@/execution/ctx.ts";
 import {
    ActiveJobExecutor,
-   ExecutorFn
+   ExecutorFn,
+   FailureHandlerFn,
+   FailureJobSource
 } from "@/execution/executor.ts";
-import { JobStateManager } from "@/execution/job-state.ts";
+import {
+   InpJobInvocation,
+   JobCancellation,
+   JobFailure,
+   JobStateManager
+} from "@/execution/job-state.ts";
 import { ActiveJob } from "@/execution/job.ts";
 import { OpenQueueClient } from "@/management/client.ts";
+import { MapResultStore } from "@/management/map-results.ts";
 import { Wrapper } from "@/management/wrapper.ts";
 import {
    convertSimplifiedDefaultJobOptions,
    DefaultJobOptions,
+   DurationSchema,
+   InpDuration,
    InpJobOptions,
-   InpSimplifiedDefaultJobOptions
+   InpSimplifiedDefaultJobOptions,
+   InpWorkflowSchedule,
+   StepType,
+   WorkflowSchedule,
+   WorkflowScheduleSchema
 } from "@/utils/schema.ts";
 import { deepmerge } from "@/utils/fns.ts";
 import { Job as BullJob } from "bullmq";
 import { z } from "zod";
 
+const WAKEABLE_STEP_TYPES: StepType[] = [
+   "sleep",
+   "sleep-until",
+   "repeat"
+];
+
+/**
+ * Name of the jobs running the workflow's `onFailure` handler, they share the workflow's queue
+ */
+const FAILURE_JOB_NAME = "failure";
+
+/**
+ * Takes the schedule's overlap lock for the job, unless another job holds it and is still going. The lock isn't
+ * released when a run fails, so a holder that finished (has `finishedOn`) or was removed doesn't count.
+ */
+const ACQUIRE_SCHEDULE_LOCK_SCRIPT = `
+local holder = redis.call("GET", KEYS[1])
+if holder and holder ~= ARGV[1] then
+   local holderKey = ARGV[2] .. holder
+   if redis.call("EXISTS", holderKey) == 1 and not redis.call("HGET", holderKey, "finishedOn") then
+      return 0
+   end
+end
+redis.call("SET", KEYS[1], ARGV[1])
+return 1
+`;
+
+/**
+ * Releases the schedule's overlap lock, if the job still holds it
+ */
+const RELEASE_SCHEDULE_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+   return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
 export type WorkflowOptions<
   Id extends string,
   S extends z.AnyZodObject,
@@ -25,8 +76,49 @@ export type WorkflowOptions<
    id: Id;
    schema: S;
    fn: Fn;
+   /**
+    * Version of the workflow, stamped into every job created for it. Bump it on changes that would break jobs
+    * still in flight, and branch on `ctx.patched()` or `ctx.getVersion()`. Defaults to 1.
+    */
+   version?: number;
+   /**
+    * Handlers of earlier versions, by version. Jobs run the handler of the version they were created with, or `fn`
+    * when there is none.
+    */
+   handlers?: Record<number, ExecutorFn<z.infer<S>>>;
+   /**
+    * Runs once a job has failed for good, after its last attempt or on an unrecoverable error, i.e. to send alerts or
+    * clean up. It runs as a job of its own, so it can use steps of `ctx` and is retried like any other job. Its
+    * outcome is recorded on the failed job as `__failure`.
+    */
+   onFailure?: FailureHandlerFn<z.infer<S>>;
+   /**
+    * @deprecated Use `onFailure`, which this is called from with the (serialized) error
+    */
    onError?: (error: any) => Promise<any>;
+   /**
+    * Keep jobs that failed for good in a dead-letter queue, with their full state, to inspect & redrive them
+    * through `client.deadLetters()`
+    */
+   deadLetter?: boolean;
    jobOptions?: InpSimplifiedDefaultJobOptions;
+   /**
+    * The longest a job may take, i.e. "1h", counting from when it first started and including sleeps. Jobs running
+    * past it fail with a `WorkflowTimeoutError`.
+    */
+   maxDuration?: InpDuration;
+   /**
+    * Also fail jobs that finish without replaying every step that ran before. Duplicate step ids, steps changing
+    * their type and steps replaying in a different order than they first ran always fail the job.
+    */
+   strict?: boolean;
+   /**
+    * Run the workflow on a cron schedule. The schedule is registered (or updated) when the client is initialized,
+    * and removed again once it's taken out of the definition.
+    */
+   schedule?: Omit<InpWorkflowSchedule, "data"> & {
+      data?: z.input<S>;
+   };
 };
 
 export class Workflow<
@@ -37,8 +129,14 @@ export class Workflow<
    public __id: Id;
    public __schema: S;
    public __fn: Fn;
-   public __onError?: any;
+   public __version: number;
+   public __handlers: Record<number, ExecutorFn<z.infer<S>>>;
+   public __onFailure?: FailureHandlerFn<z.infer<S>>;
+   public __deadLetter: boolean;
    public __jobOptions: DefaultJobOptions;
+   public __maxDuration?: number;
+   public __strict: boolean;
+   public __schedule?: WorkflowSchedule;
    public __client: OpenQueueClient<any> | null = null;
    public __wrapper: Wrapper;
 
@@ -46,8 +144,19 @@ export class Workflow<
       this.__id = options.id;
       this.__schema = options.schema;
       this.__fn = options.fn;
-      this.__onError = options.onError;
+      this.__version = options.version ?? 1;
+      this.__handlers = options.handlers ?? {};
+      const onError = options.onError;
+      this.__onFailure = options.onFailure ?? (
+        onError ? ({ error }) => onError(error) : undefined
+      );
+      this.__deadLetter = options.deadLetter ?? false;
       this.__jobOptions = convertSimplifiedDefaultJobOptions(options.jobOptions ?? {});
+      this.__maxDuration = DurationSchema.optional()
+        .parse(options.maxDuration);
+      this.__strict = options.strict ?? false;
+      this.__schedule = WorkflowScheduleSchema.optional()
+        .parse(options.schedule);
       this.__wrapper = new Wrapper({
          name: this.__id,
          workflow: this
@@ -60,6 +169,13 @@ export class Workflow<
       } as unknown as T;
    }
 
+   /**
+    * The handler to run a job created with the given version
+    */
+   __getHandler (version: number): ExecutorFn<z.infer<S>> {
+      return this.__handlers[version] ?? this.__fn;
+   }
+
    async __init (client: OpenQueueClient<any>) {
       this.__client = client;
       await this.__wrapper.init();
@@ -75,7 +191,11 @@ export class Workflow<
    ) {
       const jobOptions = this.__wrapper.__generateJobOptions(options);
       const parsedData = this.__schema.parse(data);
-      const prepared = JobStateManager.prepareData(parsedData);
+      const prepared = JobStateManager.prepareData(
+        parsedData,
+        [],
+        this.__version
+      );
 
       const createdBullJob = await this.__wrapper.__bullQueue!.add(
         "default",
@@ -91,11 +211,19 @@ export class Workflow<
    async createJobs (entries: Array<{
       data: z.input<S>;
       options: InpJobOptions;
+      /**
+       * Steps of other jobs waiting for this job to complete
+       */
+      invocations?: InpJobInvocation[];
    }>) {
       const preparedJobs = entries.map(entry => (
         {
            name: "default",
-           data: JobStateManager.prepareData(this.__schema.parse(entry.data)).data,
+           data: JobStateManager.prepareData(
+             this.__schema.parse(entry.data),
+             entry.invocations,
+             this.__version
+           ).data,
            opts: this.__wrapper.__generateJobOptions(entry.options)
         }
       ));
@@ -107,8 +235,74 @@ export class Workflow<
       };
    }
 
+   __isFailureJob (bullJob: BullJob) {
+      return bullJob.name === FAILURE_JOB_NAME;
+   }
+
+   __failureJobId (failedJobId: string) {
+      return `${ failedJobId }-failure`;
+   }
+
+   /**
+    * Creates the job running the `onFailure` handler for a failed job. Its id is derived from the failed job's, so
+    * it's only created once.
+    */
+   async __createFailureJob (source: FailureJobSource) {
+      const prepared = JobStateManager.prepareData(
+        source,
+        [],
+        source.state.__version
+      );
+
+      return this.__wrapper.__getBullQueue()
+        .add(
+          FAILURE_JOB_NAME,
+          prepared.data,
+          this.__wrapper.__generateJobOptions({
+             uniqueJobId: this.__failureJobId(source.failedJobId)
+          })
+        );
+   }
+
+   /**
+    * Records the outcome of the `onFailure` handler on the failed job. Returns false if the failed job was removed
+    * in the meantime.
+    */
+   async __recordFailureOutcome (
+     failedJobId: string,
+     outcome: Pick<JobFailure, "status" | "result" | "error">
+   ) {
+      const bullJob = await this.getBullJob(failedJobId);
+      if (!bullJob) {
+         return false;
+      }
+
+      const failedJob = new ActiveJob(
+        this,
+        {
+           bullJob
+        }
+      );
+      await failedJob.init();
+
+      const state = failedJob.state.data!;
+      state.__failure = {
+         jobId: this.__failureJobId(failedJobId),
+         ...state.__failure,
+         ...outcome,
+         completedAt: Date.now()
+      };
+      await failedJob.state.updateData();
+
+      return true;
+   }
+
    async getActiveJob (id: string) {
       const bullJob = await this.getBullJob(id);
+      if (!bullJob) {
+         throw new Error(`Job ${ id } not found`);
+      }
+
       const activeJob = new ActiveJob(
         this,
         {
@@ -117,6 +311,7 @@ export class Workflow<
         }
       );
       await activeJob.init();
+      await activeJob.state.hydrateSteps();
 
       return activeJob;
    }
@@ -126,6 +321,203 @@ export class Workflow<
         .getJob(id);
    }
 
+   /**
+    * Moves a delayed job back to the queue so it gets processed right away. Returns false if the job is not delayed.
+    */
+   async __promoteJob (id: string) {
+      const bullJob = await this.getBullJob(id);
+      if (!bullJob || !(
+        await bullJob.isDelayed()
+      )) {
+         return false;
+      }
+
+      try {
+         await bullJob.promote();
+         return true;
+      }
+      catch (e) {
+         // The job might have been picked up in the meantime
+         return false;
+      }
+   }
+
+   /**
+    * Resumes the jobs waiting for this job in an invoke or map step, once it has finished
+    */
+   async __resumeInvokers (
+     bullJob: BullJob,
+     status: "completed" | "failed"
+   ) {
+      const { data } = JobStateManager.prepareData(bullJob.data);
+
+      await Promise.all(data.__invocations.map(async invocation => {
+         const invoker = this.getClient().__workflows[invocation.fnId];
+         if (!invoker || !invocation.jobId) {
+            return;
+         }
+
+         if (typeof invocation.index === "number") {
+            await invoker.__getMapResults(
+              invocation.jobId,
+              invocation.stepId
+            )
+              .recordJob(
+                invocation.index,
+                bullJob,
+                status
+              );
+         }
+         await invoker.__promoteJob(invocation.jobId);
+      }));
+   }
+
+   /**
+    * The results of the children of a job's map step
+    */
+   __getMapResults (
+     jobId: string,
+     stepId: string
+   ) {
+      return new MapResultStore(
+        this.getClient(),
+        this.__id,
+        jobId,
+        stepId
+      );
+   }
+
+   /**
+    * Wakes a job up early from `ctx.sleep()`, `ctx.sleepUntil()` or the delay between `ctx.repeat()` runs.
+    * If a step id is given, the job is only woken if that's the step it is sleeping in.
+    */
+   async wakeJob (
+     id: string,
+     stepId?: string
+   ) {
+      const { state } = await this.getActiveJob(id);
+      const sleepingSteps = Object.entries(state.data!.__steps)
+        .filter(([ , step ]) => step.status === "delayed" && WAKEABLE_STEP_TYPES.includes(step.type))
+        .map(([ sleepingStepId ]) => sleepingStepId);
+
+      if (stepId !== undefined ? !sleepingSteps.includes(stepId) : !sleepingSteps.length) {
+         return false;
+      }
+
+      return this.__promoteJob(id);
+   }
+
+   /**
+    * Cancels a job. The job stops at its next step boundary, or right away if it's sleeping or waiting. Returns
+    * false if the job has already finished. Cancelling an active job is best-effort, if it finishes without reaching
+    * another step boundary it completes (or fails) as usual.
+    */
+   async cancelJob (
+     id: string,
+     reason?: string
+   ) {
+      const bullJob = await this.getBullJob(id);
+      if (!bullJob) {
+         throw new Error(`Job ${ id } not found`);
+      }
+
+      const bullState = await bullJob.getState();
+      if (bullState === "completed" || bullState === "failed") {
+         return false;
+      }
+
+      await this.getConnection()
+        .set(
+          this.__cancellationKey(id),
+          JSON.stringify({
+             reason: reason ?? null,
+             cancelledAt: Date.now()
+          } satisfies JobCancellation)
+        );
+      await this.__promoteJob(id);
+
+      return true;
+   }
+
+   /**
+    * Checks whether a job created by the workflow's schedule should be skipped, according to the schedule's
+    * missed run & overlap options. Returns the reason to skip it, if any.
+    */
+   async __checkScheduledRun (bullJob: BullJob): Promise<string | null> {
+      const schedule = this.__schedule;
+      if (!schedule || bullJob.repeatJobKey !== this.__wrapper.__scheduleId()) {
+         return null;
+      }
+
+      if (schedule.missed === "skip") {
+         const scheduledFor = bullJob.opts.prevMillis ?? bullJob.timestamp + bullJob.delay;
+         if (Date.now() - scheduledFor > schedule.missedTolerance) {
+            return "missed";
+         }
+      }
+
+      if (schedule.overlap === "skip") {
+         const acquired = await this.getConnection()
+           .eval(
+             ACQUIRE_SCHEDULE_LOCK_SCRIPT,
+             1,
+             this.__scheduleLockKey(),
+             bullJob.id!,
+             this.__wrapper.__getBullQueue()
+               .toKey("")
+           );
+         if (!acquired) {
+            return "overlap";
+         }
+      }
+
+      return null;
+   }
+
+   async __releaseScheduleLock (jobId: string) {
+      if (this.__schedule?.overlap !== "skip") {
+         return;
+      }
+
+      await this.getConnection()
+        .eval(
+          RELEASE_SCHEDULE_LOCK_SCRIPT,
+          1,
+          this.__scheduleLockKey(),
+          jobId
+        );
+   }
+
+   __scheduleLockKey () {
+      return this.getClient()
+        .__key(
+          "schedules",
+          this.__id,
+          "running"
+        );
+   }
+
+   async __getCancellation (id: string): Promise<JobCancellation | null> {
+      const raw = await this.getConnection()
+        .get(this.__cancellationKey(id));
+
+      return raw ? JSON.parse(raw) : null;
+   }
+
+   async __clearCancellation (id: string) {
+      await this.getConnection()
+        .del(this.__cancellationKey(id));
+   }
+
+   __cancellationKey (id: string) {
+      return this.getClient()
+        .__key(
+          "cancellations",
+          this.__id,
+          id
+        );
+   }
+
    async processJob (
      bullJob: BullJob,
      bullToken?: string
@@ -164,11 +556,16 @@ export class Workflow<
       return thisDefault;
    }
 
-   getConnection () {
+   getClient () {
       if (!this.__client) {
          throw new Error("Client not initialized");
       }
 
-      return this.__client.__getConnection();
+      return this.__client;
+   }
+
+   getConnection () {
+      return this.getClient()
+        .__getConnection();
    }
 }
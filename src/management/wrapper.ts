@@ -1,4 +1,10 @@
+import { JobStateManager } from "@/execution/job-state.ts";
+import {
+   capLogEntry,
+   formatLogEntry
+} from "@/execution/logger.ts";
 import { Workflow } from "@/management/workflow.ts";
+import { serializeError } from "@/utils/fns.ts";
 import {
    InpJobOptions,
    JobOptions,
@@ -8,7 +14,9 @@ import {
    Job as BullJob,
    JobsOptions as BullJobsOptions,
    Queue as BullQueue,
+   QueueEvents as BullQueueEvents,
    QueueOptions as BullQueueOptions,
+   RepeatOptions as BullRepeatOptions,
    Worker as BullWorker,
    WorkerOptions as BullWorkerOptions
 } from "bullmq";
@@ -22,6 +30,7 @@ export class Wrapper {
    public __workflow: Workflow<any, any, any>;
    public __bullWorker: BullWorker | null = null;
    public __bullQueue: BullQueue | null = null;
+   public __bullQueueEvents: BullQueueEvents | null = null;
 
    constructor (public __options: WrapperOptions) {
       this.__workflow = this.__options.workflow;
@@ -29,6 +38,7 @@ export class Wrapper {
 
    async init () {
       await this.setupQueue();
+      await this.setupSchedule();
       await this.setupWorker();
    }
 
@@ -62,6 +72,10 @@ export class Wrapper {
       if (this.__bullQueue) {
          await this.__bullQueue.close();
       }
+      if (this.__bullQueueEvents) {
+         await this.__bullQueueEvents.close();
+         this.__bullQueueEvents = null;
+      }
    }
 
    async setupQueue () {
@@ -84,6 +98,59 @@ export class Wrapper {
       }
    }
 
+   /**
+    * Registers (or updates) the job scheduler for the workflow's schedule, or removes it if it has none
+    */
+   async setupSchedule () {
+      const queue = this.__getBullQueue();
+      const schedule = this.__workflow.__schedule;
+      if (!schedule) {
+         await queue.removeJobScheduler(this.__scheduleId());
+         return;
+      }
+
+      await this.__upsertScheduler(
+        this.__scheduleId(),
+        {
+           pattern: schedule.cron,
+           tz: schedule.timezone
+        },
+        schedule.data ?? {}
+      );
+   }
+
+   /**
+    * Creates or updates a BullMQ job scheduler creating jobs for this workflow with the given data
+    */
+   async __upsertScheduler (
+     schedulerId: string,
+     repeat: Omit<BullRepeatOptions, "key">,
+     data: any
+   ) {
+      const prepared = JobStateManager.prepareData(
+        this.__workflow.__schema.parse(data),
+        [],
+        this.__workflow.__version
+      ).data;
+      const {
+         jobId,
+         delay,
+         deduplication,
+         ...opts
+      } = this.__generateJobOptions({});
+
+      return this.__getBullQueue()
+        .upsertJobScheduler(
+          schedulerId,
+          repeat,
+          {
+             name: "default",
+             data: prepared,
+             opts
+          }
+        );
+   }
+
    async setupWorker () {
       if (this.__bullWorker) {
          throw new Error("Worker already exists");
@@ -98,6 +165,69 @@ export class Wrapper {
            connection: this.__workflow.getConnection()
         }
       );
+
+      // Jobs waiting for this one in an invoke or map step are resumed once it completed, or failed for good
+      this.__bullWorker.on(
+        "completed",
+        bullJob => this.__resumeInvokers(
+          bullJob,
+          "completed"
+        )
+      );
+      this.__bullWorker.on(
+        "failed",
+        bullJob => {
+           if (bullJob?.finishedOn) {
+              this.__resumeInvokers(
+                bullJob,
+                "failed"
+              );
+           }
+        }
+      );
+   }
+
+   __resumeInvokers (
+     bullJob: BullJob,
+     status: "completed" | "failed"
+   ) {
+      this.__workflow.__resumeInvokers(
+        bullJob,
+        status
+      )
+        .catch(e => this.__logError(
+          bullJob,
+          `Failed to resume the invokers of job ${ bullJob.id } in workflow ${ this.__options.name }`,
+          e
+        ));
+   }
+
+   /**
+    * Reports an error that happened outside of a job's run to its job log and the client's logger. Never throws, as
+    * there's nothing left to report it to.
+    */
+   async __logError (
+     bullJob: BullJob,
+     message: string,
+     error: unknown
+   ) {
+      const entry = capLogEntry({
+         ts: Date.now(),
+         level: "error",
+         message: `${ message }, error: ${ error?.toString() ?? "N/A" }`,
+         metadata: {
+            error: serializeError(error)
+         },
+         workflow: this.__options.name,
+         jobId: bullJob.id!,
+         stepId: null,
+         attempt: bullJob.attemptsMade
+      });
+
+      await Promise.allSettled([
+         bullJob.log(formatLogEntry(entry)),
+         (async () => this.__workflow.__client?.__options.logger?.log(entry))()
+      ]);
    }
 
    async setupJob (_options: InpJobOptions) {
@@ -196,6 +326,12 @@ export class Wrapper {
             max: defaultOptions.rateLimit.amount,
             duration: defaultOptions.rateLimit.duration
          };
+      } else {
+         // BullMQ only holds off workers with a limiter when the queue is rate limited, i.e. by `ctx.rateLimited()`
+         bullOptions.limiter = {
+            max: Number.MAX_SAFE_INTEGER,
+            duration: 1_000
+         };
       }
 
       return bullOptions;
@@ -233,6 +369,41 @@ export class Wrapper {
       return bullOptions;
    }
 
+   /**
+    * The id of the job scheduler for the workflow's own schedule, or for a schedule created through
+    * `client.schedules` when a key is given
+    */
+   __scheduleId (key?: string) {
+      return key === undefined
+             ? `${ this.__options.name }-schedule`
+             : `${ this.__options.name }-schedule-${ key }`;
+   }
+
+   /**
+    * Stops every worker of the queue from picking up jobs for the duration, on top of the static limiter. Workers
+    * always have a limiter for this, as BullMQ ignores the queue's rate limit in workers without one.
+    */
+   async __rateLimit (duration: number) {
+      await this.__getBullQueue()
+        .rateLimit(duration);
+   }
+
+   /**
+    * Listens to the events of the queue's jobs. Created on first use, as it keeps a blocking redis connection open.
+    */
+   __getQueueEvents () {
+      if (!this.__bullQueueEvents) {
+         this.__bullQueueEvents = new BullQueueEvents(
+           this.__options.name,
+           {
+              connection: this.__workflow.getConnection()
+           }
+         );
+      }
+
+      return this.__bullQueueEvents;
+   }
+
    __getBullQueue () {
       if (!this.__bullQueue) {
          throw new Error("Queue not initialized");
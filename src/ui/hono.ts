@@ -4,9 +4,65 @@ import { BullMQAdapter } from "@bull-board/api/bullMQAdapter";
 import { HonoAdapter } from "@bull-board/hono";
 import { serve } from "@hono/node-server";
 import { serveStatic } from "@hono/node-server/serve-static";
-import { Hono } from "hono";
+import {
+   Context,
+   Hono
+} from "hono";
 import { showRoutes } from "hono/dev";
 
+/**
+ * Routes for resolving approvals created with `ctx.waitForApproval()`. GET uses the query parameters as payload,
+ * so approval links can be put straight into emails. Email link scanners open links too though, which resolves
+ * the approval, link to a confirmation page of your own that POSTs instead where that matters. POST uses the JSON
+ * body.
+ */
+export const createApprovalRoutes = (client: OpenQueueClient<any>) => {
+   const app = new Hono();
+
+   const resolve = async (
+     c: Context,
+     getPayload: () => Promise<unknown>
+   ) => {
+      try {
+         const resolved = await client.resolveApproval(
+           c.req.param("token")!,
+           await getPayload()
+         );
+
+         return c.json({
+            resolved: true,
+            ...resolved
+         });
+      }
+      catch (e) {
+         return c.json(
+           {
+              resolved: false,
+              error: e instanceof Error ? e.message : String(e)
+           },
+           400
+         );
+      }
+   };
+
+   app.get(
+     "/:token",
+     c => resolve(
+       c,
+       async () => c.req.query()
+     )
+   );
+   app.post(
+     "/:token",
+     c => resolve(
+       c,
+       () => c.req.json()
+     )
+   );
+
+   return app;
+};
+
 export const runBullUiServer = async (client: OpenQueueClient<any>) => {
    const queues = client.__getWorkflowsAsQueues();
 
@@ -26,6 +82,10 @@ export const runBullUiServer = async (client: OpenQueueClient<any>) => {
      "/ui",
      serverAdapter.registerPlugin()
    );
+   app.route(
+     "/approvals",
+     createApprovalRoutes(client)
+   );
 
    showRoutes(app);
 
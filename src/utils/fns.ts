@@ -1,5 +1,150 @@
+import {
+   RepeatBackoffStrategies,
+   RepeatInterval
+} from "@/utils/schema.ts";
 import { merge as deepmerge } from "ts-deepmerge";
 
 export {
    deepmerge
 };
+
+/**
+ * Reads a value from an object by a dot separated path, i.e. "user.id"
+ */
+export const getByPath = (
+  source: any,
+  path: string
+) => {
+   return path.split(".")
+     .reduce(
+       (
+         acc,
+         key
+       ) => acc?.[key],
+       source
+     );
+};
+
+/**
+ * Checks whether every path in `match` has the same value in `payload`. Values are compared by their JSON
+ * representation, so nested objects & arrays can be matched as well.
+ */
+export const matchesPayload = (
+  payload: any,
+  match?: Record<string, unknown> | null
+) => {
+   if (!match) {
+      return true;
+   }
+
+   return Object.entries(match)
+     .every(([ path, expected ]) => {
+        return JSON.stringify(getByPath(
+          payload,
+          path
+        )) === JSON.stringify(expected);
+     });
+};
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(
+  resolve,
+  ms
+));
+
+/**
+ * Calculates the delay before the next attempt, the same way BullMQ does for job retries. Linear is only used
+ * for repeat intervals.
+ */
+export const computeBackoffDelay = (
+  strategy: RepeatBackoffStrategies,
+  delay: number,
+  attempt: number
+) => {
+   if (strategy === "exponential") {
+      return Math.round(Math.pow(
+        2,
+        attempt - 1
+      ) * delay);
+   }
+
+   if (strategy === "linear") {
+      return attempt * delay;
+   }
+
+   return delay;
+};
+
+/**
+ * Calculates the delay after the given attempt of a repeat step, capped at the interval's max and with its jitter
+ */
+export const computeRepeatDelay = (
+  interval: RepeatInterval,
+  attempt: number
+) => {
+   const delay = Math.min(
+     computeBackoffDelay(
+       interval.strategy,
+       interval.base,
+       attempt
+     ),
+     interval.max ?? Infinity
+   );
+   const jitter = delay * interval.jitter * (Math.random() * 2 - 1);
+
+   return Math.max(
+     Math.round(delay + jitter),
+     0
+   );
+};
+
+export type SerializedError = {
+   name: string;
+   message: string;
+   stack?: string | null;
+   cause?: SerializedError | null;
+   /**
+    * Custom enumerable fields of the error, i.e. `statusCode`
+    */
+   fields: Record<string, any>;
+};
+
+/**
+ * Turns anything thrown into a plain object that can be stored, following the `cause` chain up to a few levels
+ */
+export const serializeError = (
+  error: unknown,
+  depth = 0
+): SerializedError => {
+   if (!(error instanceof Error)) {
+      return {
+         name: "NonError",
+         message: typeof error === "string" ? error : String(JSON.stringify(error) ?? error),
+         fields: {}
+      };
+   }
+
+   const fields: Record<string, any> = {};
+   for (const [ key, value ] of Object.entries(error)) {
+      if ([ "name", "message", "stack", "cause" ].includes(key)) {
+         continue;
+      }
+
+      try {
+         fields[key] = JSON.parse(JSON.stringify(value) ?? "null");
+      }
+      catch {
+         fields[key] = String(value);
+      }
+   }
+
+   return {
+      name: error.name,
+      message: error.message,
+      stack: error.stack ?? null,
+      cause: error.cause !== undefined && depth < 5 ? serializeError(
+        error.cause,
+        depth + 1
+      ) : null,
+      fields
+   };
+};
@@ -1,11 +1,130 @@
 import { z } from "zod";
 
+const DURATION_UNITS = {
+   ms: 1,
+   s: 1_000,
+   m: 60_000,
+   h: 3_600_000,
+   d: 86_400_000,
+   w: 604_800_000
+};
+export type DurationUnit = keyof typeof DURATION_UNITS;
+/**
+ * A duration like "500ms", "15m", "1d" or "2h30m"
+ */
+export type DurationString = `${ number }${ DurationUnit }${ string }`;
+
+/**
+ * Parses a duration string like "15m" or "2h30m" into milliseconds, returns null if it isn't valid
+ */
+export const parseDuration = (input: string) => {
+   const normalized = input.replace(
+     /\s+/g,
+     ""
+   );
+   if (!/^(\d+(\.\d+)?(ms|s|m|h|d|w))+$/.test(normalized)) {
+      return null;
+   }
+
+   return [ ...normalized.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d|w)/g) ].reduce(
+     (
+       acc,
+       [ , amount, unit ]
+     ) => acc + parseFloat(amount) * DURATION_UNITS[unit as DurationUnit],
+     0
+   );
+};
+
+const DurationStringSchema = z.custom<DurationString>(
+  value => typeof value === "string" && parseDuration(value) !== null,
+  {
+     message: "Invalid duration, expected milliseconds or a string like \"15m\" or \"2h30m\""
+  }
+);
+
+/**
+ * A duration in milliseconds, or a duration string like "15m" or "2h30m"
+ */
+export const DurationSchema = z.union([
+   z.number()
+     .nonnegative(),
+   DurationStringSchema.transform(value => parseDuration(value)!)
+]);
+export type InpDuration = z.input<typeof DurationSchema>;
+
+/**
+ * A timestamp in milliseconds, or a date
+ */
+export const TimestampSchema = z.union([
+   z.number(),
+   z.date()
+     .transform(value => value.getTime())
+]);
+export type InpTimestamp = z.input<typeof TimestampSchema>;
+
+/**
+ * A delay as a duration, or a date to delay until
+ */
+export const DelaySchema = z.union([
+   DurationSchema,
+   z.date()
+     .transform(value => Math.max(
+       value.getTime() - Date.now(),
+       0
+     ))
+]);
+
+/**
+ * Parses the value of a `Retry-After` header, either in seconds or an HTTP date, into a delay (ms). Returns null if it
+ * isn't valid.
+ */
+export const parseRetryAfter = (header: string) => {
+   const value = header.trim();
+   if (/^\d+$/.test(value)) {
+      return parseInt(value) * 1_000;
+   }
+
+   const retryAt = Date.parse(value);
+   if (Number.isNaN(retryAt)) {
+      return null;
+   }
+
+   return Math.max(
+     retryAt - Date.now(),
+     0
+   );
+};
+
+/**
+ * A delay as a duration, a date to delay until, or the value of a `Retry-After` header. Anything invalid (a missing
+ * header, a negative delay) is no delay.
+ */
+export const RetryAfterSchema = z.union([
+   DelaySchema,
+   z.string()
+     .transform(value => parseRetryAfter(value) ?? 0)
+])
+  .catch(0);
+
+/**
+ * An age in seconds (as BullMQ expects it for removals), or a duration string like "7d"
+ */
+export const AgeSchema = z.union([
+   z.number()
+     .nonnegative(),
+   DurationStringSchema.transform(value => Math.ceil(parseDuration(value)! / 1000))
+]);
+
 export const StepTypeSchema = z.enum([
    "run",
    "sleep",
    "sleep-until",
    "repeat",
-   "invoke-wait-for-result"
+   "invoke-wait-for-result",
+   "wait-for-event",
+   "map",
+   "spawn",
+   "wait-for-approval"
 ]);
 export type StepType = z.infer<typeof StepTypeSchema>;
 export const StepStatusSchema = z.enum([
@@ -21,14 +140,51 @@ export const BackoffStrategiesSchema = z.enum([
    "exponential"
 ]);
 export type BackoffStrategies = z.infer<typeof BackoffStrategiesSchema>;
+/**
+ * Strategies for `ctx.repeat()` intervals. Linear isn't one of BullMQ's, so it's only available there.
+ */
+export const RepeatBackoffStrategiesSchema = z.enum([
+   ...BackoffStrategiesSchema.options,
+   "linear"
+]);
+export type RepeatBackoffStrategies = z.infer<typeof RepeatBackoffStrategiesSchema>;
+
+export const RepeatIntervalPolicySchema = z.object({
+   strategy: RepeatBackoffStrategiesSchema.default("fixed"),
+   /**
+    * The interval after the first attempt, which the strategy grows from
+    */
+   base: DurationSchema,
+   /**
+    * The interval never grows past this
+    */
+   max: DurationSchema.optional(),
+   /**
+    * Fraction of the interval (0-1) randomly added or taken off, so pollers don't run in lockstep
+    */
+   jitter: z.number()
+     .min(0)
+     .max(1)
+     .default(0)
+});
+/**
+ * A fixed interval, or a policy for how the interval grows between attempts
+ */
+export const RepeatIntervalSchema = z.union([
+   DurationSchema.transform(base => RepeatIntervalPolicySchema.parse({
+      base
+   })),
+   RepeatIntervalPolicySchema
+]);
+export type RepeatInterval = z.infer<typeof RepeatIntervalSchema>;
+export type InpRepeatInterval = z.input<typeof RepeatIntervalSchema>;
 
 export const DefaultRetrySchema = z.object({
    enabled: z.boolean()
      .default(true),
    amount: z.number()
      .default(3),
-   delay: z.number()
-     .default(1000),
+   delay: DurationSchema.default(1000),
    backoff: BackoffStrategiesSchema.default("exponential")
 });
 export const DefaultConcurrencySchema = z.object({
@@ -43,14 +199,14 @@ export const DefaultRateLimitSchema = z.object({
    enabled: z.boolean()
      .default(true),
    amount: z.number(),
-   duration: z.number(),
+   duration: DurationSchema,
    key: z.string()
      .nullish()
 });
 export const DefaultDelaySchema = z.object({
    enabled: z.boolean()
      .default(true),
-   duration: z.number(),
+   duration: DurationSchema,
    key: z.string()
      .optional()
 });
@@ -63,8 +219,7 @@ export const DefaultPrioritySchema = z.object({
 const DefaultJobRemovalTypeSchema = z.object({
    always: z.boolean()
      .default(false),
-   age: z.number()
-     .optional(),
+   age: AgeSchema.optional(),
    afterAmount: z.number()
      .optional()
 });
@@ -113,7 +268,7 @@ export const SimplifiedDefaultJobOptionsSchema = z.object({
      .optional(),
    delay: z.union([
         z.boolean(),
-        z.number(),
+        DurationSchema,
         DefaultDelaySchema
      ])
      .optional(),
@@ -226,8 +381,7 @@ export const convertSimplifiedDefaultJobOptions = (input: InpSimplifiedDefaultJo
 export const JobOptionsSchema = z.object({
    retries: z.number()
      .optional(),
-   delay: z.number()
-     .optional(),
+   delay: DelaySchema.optional(),
    priority: z.number()
      .int()
      .optional(),
@@ -237,7 +391,7 @@ export const JobOptionsSchema = z.object({
      ])
      .default("fifo"),
    deduplication: z.object({
-        ttl: z.number(),
+        ttl: DurationSchema,
         id: z.string()
      })
      .nullish(),
@@ -246,3 +400,38 @@ export const JobOptionsSchema = z.object({
 });
 export type JobOptions = z.infer<typeof JobOptionsSchema>;
 export type InpJobOptions = z.input<typeof JobOptionsSchema>;
+
+export const WorkflowScheduleSchema = z.object({
+   /**
+    * Cron pattern for when to run, i.e. "0 9 * * 1" for every Monday at 9:00
+    */
+   cron: z.string(),
+   timezone: z.string()
+     .optional(),
+   /**
+    * The data each scheduled job is created with
+    */
+   data: z.any()
+     .optional(),
+   /**
+    * What to do with a run that starts late, i.e. because no worker was running at the time. "run" runs it anyway,
+    * "skip" skips it when it's later than `missedTolerance`.
+    */
+   missed: z.enum([
+        "run",
+        "skip"
+     ])
+     .default("run"),
+   missedTolerance: DurationSchema.default("1m"),
+   /**
+    * What to do when a run is due while the previous one is still going (i.e. sleeping). "allow" runs them side
+    * by side, "skip" skips the new run.
+    */
+   overlap: z.enum([
+        "allow",
+        "skip"
+     ])
+     .default("allow")
+});
+export type WorkflowSchedule = z.infer<typeof WorkflowScheduleSchema>;
+export type InpWorkflowSchedule = z.input<typeof WorkflowScheduleSchema>;
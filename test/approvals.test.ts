@@ -0,0 +1,155 @@
+import { ApprovalManager } from "@/management/approvals.ts";
+import { EventBus } from "@/management/events.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+/**
+ * Approvals of a client that doesn't register the waiting workflow, i.e. a web process, with its redis connection
+ * faked in memory
+ */
+const createApprovals = () => {
+   const store = new Map<string, string>();
+   const connection = {
+      get: async (key: string) => store.get(key) ?? null,
+      getdel: async (key: string) => {
+         const value = store.get(key) ?? null;
+         store.delete(key);
+         return value;
+      },
+      set: async (
+        key: string,
+        value: string,
+        mode: "NX" | "PX"
+      ) => {
+         if (mode === "NX" && store.has(key)) {
+            return null;
+         }
+         store.set(
+           key,
+           value
+         );
+         return "OK";
+      },
+      del: async (key: string) => store.delete(key)
+   };
+
+   const client = {
+      __options: {
+         secret: "secret"
+      },
+      __workflows: {},
+      __getConnection: () => connection,
+      __key: (...parts: string[]) => parts.join(":")
+   } as any;
+   client.__events = new EventBus(client);
+   client.__events.__resume = async () => true;
+
+   return new ApprovalManager(client);
+};
+
+const waiter = {
+   workflow: "refunds",
+   jobId: "1",
+   stepId: "review-refund"
+};
+
+describe(
+  "ApprovalManager.resolve",
+  () => {
+     test(
+       "delivers the payload & resolves once the job accepted it",
+       async () => {
+          const approvals = createApprovals();
+          const {
+             token,
+             nonce
+          } = await approvals.create(
+            waiter,
+            60_000
+          );
+          await approvals.reportOutcome(
+            nonce,
+            {
+               accepted: true,
+               issues: null
+            }
+          );
+
+          expect(await approvals.resolve(
+            token,
+            { approved: "true" }
+          )).toEqual({
+             workflow: "refunds",
+             jobId: "1",
+             pending: false
+          });
+          expect((await approvals.__client.__events.getDelivery(waiter))?.payload).toEqual({ approved: "true" });
+       }
+     );
+
+     test(
+       "throws once the job rejected the payload",
+       async () => {
+          const approvals = createApprovals();
+          const {
+             token,
+             nonce
+          } = await approvals.create(
+            waiter,
+            60_000
+          );
+          await approvals.reportOutcome(
+            nonce,
+            {
+               accepted: false,
+               issues: []
+            }
+          );
+
+          await expect(approvals.resolve(
+            token,
+            { approved: "maybe" }
+          )).rejects.toThrow("Approval payload is invalid");
+       }
+     );
+
+     test(
+       "rejects tokens with an invalid signature",
+       async () => {
+          const approvals = createApprovals();
+          const { token } = await approvals.create(
+            waiter,
+            60_000
+          );
+
+          await expect(approvals.resolve(
+            `${ token }x`,
+            {}
+          )).rejects.toThrow("invalid signature");
+       }
+     );
+
+     test(
+       "rejects tokens that were used",
+       async () => {
+          const approvals = createApprovals();
+          const {
+             token,
+             nonce
+          } = await approvals.create(
+            waiter,
+            60_000
+          );
+          await approvals.consume(nonce);
+
+          await expect(approvals.resolve(
+            token,
+            {}
+          )).rejects.toThrow("already used");
+       }
+     );
+  }
+);
@@ -0,0 +1,125 @@
+import { JobCancelledError } from "@/execution/errors.ts";
+import { createHarness } from "./harness.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+const cancellation = {
+   reason: "Order was withdrawn",
+   cancelledAt: Date.now()
+};
+
+describe(
+  "cancellation",
+  () => {
+     test(
+       "stops the job at its next step boundary",
+       async () => {
+          const runs: string[] = [];
+          const harness = createHarness({
+             handler: async ({ ctx }) => {
+                await ctx.run({
+                   id: "charge",
+                   run: async () => {
+                      runs.push("charge");
+                      harness.cancellations.set(
+                        "1",
+                        cancellation
+                      );
+                   }
+                });
+                await ctx.run({
+                   id: "ship",
+                   run: async () => {
+                      runs.push("ship");
+                   }
+                });
+             }
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(JobCancelledError);
+          expect(runs).toEqual([ "charge" ]);
+          expect(JSON.parse(harness.hash.get("data")!).__cancelled.reason).toBe("Order was withdrawn");
+          expect(harness.cancellations.size).toBe(0);
+       }
+     );
+
+     test(
+       "doesn't roll back completed steps",
+       async () => {
+          const rollbacks: string[] = [];
+          const harness = createHarness({
+             handler: async ({ ctx }) => {
+                await ctx.run({
+                   id: "charge",
+                   run: async () => {
+                      harness.cancellations.set(
+                        "1",
+                        cancellation
+                      );
+                   },
+                   rollback: async () => {
+                      rollbacks.push("charge");
+                   }
+                });
+                await ctx.run({
+                   id: "ship",
+                   run: async () => undefined
+                });
+             }
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(JobCancelledError);
+          expect(rollbacks).toEqual([]);
+       }
+     );
+
+     test(
+       "clears the cancellation of a job that completes after its last step boundary",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => {
+                await ctx.run({
+                   id: "ship",
+                   run: async () => {
+                      harness.cancellations.set(
+                        "1",
+                        cancellation
+                      );
+                   }
+                });
+                return "shipped";
+             }
+          });
+
+          expect(await harness.execute()).toBe("shipped");
+          expect(harness.cancellations.size).toBe(0);
+       }
+     );
+
+     test(
+       "clears the cancellation of a job that fails for good after its last step boundary",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => {
+                await ctx.run({
+                   id: "ship",
+                   run: async () => {
+                      harness.cancellations.set(
+                        "1",
+                        cancellation
+                      );
+                      throw new Error("Carrier is down");
+                   }
+                });
+             }
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Carrier is down");
+          expect(harness.cancellations.size).toBe(0);
+       }
+     );
+  }
+);
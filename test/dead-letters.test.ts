@@ -0,0 +1,103 @@
+import {
+   JobStateManager,
+   StepState
+} from "@/execution/job-state.ts";
+import { DeadLetterQueue } from "@/management/dead-letters.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+const step = (
+  status: StepState["status"],
+  rollback?: StepState["rollback"]
+): StepState => (
+  {
+     type: "run",
+     status,
+     result: status === "completed" ? "done" : null,
+     error: status === "failed" ? "Boom" : null,
+     metrics: {
+        attempts: 1
+     },
+     rollback
+  }
+);
+
+describe(
+  "DeadLetterQueue.__prepareRedrive",
+  () => {
+     const queue = new DeadLetterQueue(
+       { __key: (...parts: string[]) => parts.join(":") } as any,
+       { __id: "orders" } as any
+     );
+     const failed = {
+        ...JobStateManager.prepareData({ orderId: "1" }).data,
+        __steps: {
+           charge: step("completed"),
+           reserve: step(
+             "completed",
+             {
+                status: "completed",
+                metrics: {
+                   attempts: 1
+                }
+             }
+           ),
+           ship: step("failed")
+        },
+        __stepOrder: [ "charge", "reserve", "ship" ],
+        __metrics: {
+           startedAt: 1,
+           failedAt: 2,
+           attempts: 3
+        },
+        __rollback: {
+           status: "completed" as const,
+           startedAt: 2,
+           completedAt: 3
+        },
+        __cancelled: {
+           reason: null,
+           cancelledAt: 2
+        },
+        __failure: {
+           jobId: "2",
+           status: "failed" as const
+        }
+     };
+
+     test(
+       "keeps completed steps that weren't rolled back",
+       () => {
+          const redriven = queue.__prepareRedrive(failed);
+
+          expect(Object.keys(redriven.__steps)).toEqual([ "charge" ]);
+          expect(redriven.__steps.charge.result).toBe("done");
+       }
+     );
+
+     test(
+       "resets the outcome of the failed run",
+       () => {
+          const redriven = queue.__prepareRedrive(failed);
+
+          expect(redriven.__metrics).toEqual({ attempts: 0 });
+          expect(redriven.__rollback).toBeNull();
+          expect(redriven.__cancelled).toBeNull();
+          expect(redriven.__failure).toBeNull();
+       }
+     );
+
+     test(
+       "keeps the job's data & history",
+       () => {
+          const redriven = queue.__prepareRedrive(failed);
+
+          expect(redriven.__source).toEqual({ orderId: "1" });
+          expect(redriven.__stepOrder).toEqual([ "charge", "reserve", "ship" ]);
+       }
+     );
+  }
+);
@@ -0,0 +1,63 @@
+import { RetryAfterError } from "@/execution/errors.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+const delayOf = (error: RetryAfterError) => error.retryAt - Date.now();
+
+describe(
+  "RetryAfterError",
+  () => {
+     test(
+       "takes durations & dates",
+       () => {
+          expect(delayOf(new RetryAfterError("1m"))).toBeWithin(
+            59_000,
+            60_001
+          );
+          expect(delayOf(new RetryAfterError(5_000))).toBeWithin(
+            4_000,
+            5_001
+          );
+          expect(delayOf(new RetryAfterError(new Date(Date.now() + 30_000)))).toBeWithin(
+            29_000,
+            30_001
+          );
+       }
+     );
+
+     test(
+       "takes the value of a Retry-After header",
+       () => {
+          expect(delayOf(new RetryAfterError("120"))).toBeWithin(
+            119_000,
+            120_001
+          );
+          expect(delayOf(new RetryAfterError(new Date(Date.now() + 60_000).toUTCString()))).toBeWithin(
+            58_000,
+            60_001
+          );
+       }
+     );
+
+     test(
+       "retries right away for invalid values, instead of hiding the error",
+       () => {
+          for (const retryAfter of [ null, "soon", -5_000, NaN ]) {
+             const error = new RetryAfterError(
+               retryAfter,
+               "Too many requests"
+             );
+
+             expect(error.message).toBe("Too many requests");
+             expect(delayOf(error)).toBeWithin(
+               -1_000,
+               1
+             );
+          }
+       }
+     );
+  }
+);
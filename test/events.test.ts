@@ -0,0 +1,148 @@
+import { EventBus } from "@/management/events.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+/**
+ * An event bus of a client that only registers the given workflows, with its redis connection faked in memory
+ */
+const createEventBus = (workflows: Record<string, any> = {}) => {
+   const store = new Map<string, any>();
+   const connection = {
+      hset: async (
+        key: string,
+        field: string,
+        value: string
+      ) => {
+         store.set(
+           key,
+           {
+              ...store.get(key),
+              [field]: value
+           }
+         );
+      },
+      hgetall: async (key: string) => store.get(key) ?? {},
+      hdel: async (
+        key: string,
+        field: string
+      ) => {
+         delete store.get(key)?.[field];
+      },
+      set: async (
+        key: string,
+        value: string,
+        _mode: "NX"
+      ) => {
+         if (store.has(key)) {
+            return null;
+         }
+         store.set(
+           key,
+           value
+         );
+         return "OK";
+      },
+      get: async (key: string) => store.get(key) ?? null
+   };
+
+   const events = new EventBus({
+      __workflows: workflows,
+      __getConnection: () => connection,
+      __key: (...parts: string[]) => parts.join(":")
+   } as any);
+   const resumed: string[] = [];
+   events.__resume = async waiter => {
+      resumed.push(waiter.jobId);
+      return true;
+   };
+
+   return {
+      events,
+      resumed
+   };
+};
+
+const waiter = {
+   workflow: "orders",
+   jobId: "1",
+   stepId: "wait-for-payment"
+};
+
+describe(
+  "EventBus.send",
+  () => {
+     test(
+       "delivers the event to waiters of workflows the client doesn't register",
+       async () => {
+          const {
+             events,
+             resumed
+          } = createEventBus();
+          await events.register(
+            "payment.completed",
+            waiter
+          );
+
+          const sent = await events.send(
+            "payment.completed",
+            { orderId: "1" }
+          );
+
+          expect(sent).toEqual([ {
+             workflow: "orders",
+             jobId: "1"
+          } ]);
+          expect(resumed).toEqual([ "1" ]);
+          expect((await events.getDelivery(waiter))?.payload).toEqual({ orderId: "1" });
+       }
+     );
+
+     test(
+       "skips waiters whose match doesn't fit the payload",
+       async () => {
+          const { events } = createEventBus();
+          await events.register(
+            "payment.completed",
+            {
+               ...waiter,
+               match: { orderId: "2" }
+            }
+          );
+
+          expect(await events.send(
+            "payment.completed",
+            { orderId: "1" }
+          )).toEqual([]);
+          expect(await events.getDelivery(waiter)).toBeNull();
+       }
+     );
+
+     test(
+       "only keeps the first delivery",
+       async () => {
+          const { events } = createEventBus();
+          await events.register(
+            "payment.completed",
+            waiter
+          );
+          await events.send(
+            "payment.completed",
+            { orderId: "1" }
+          );
+          await events.register(
+            "payment.completed",
+            waiter
+          );
+
+          expect(await events.send(
+            "payment.completed",
+            { orderId: "2" }
+          )).toEqual([]);
+          expect((await events.getDelivery(waiter))?.payload).toEqual({ orderId: "1" });
+       }
+     );
+  }
+);
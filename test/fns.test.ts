@@ -0,0 +1,172 @@
+import {
+   computeRepeatDelay,
+   serializeError
+} from "@/utils/fns.ts";
+import { RepeatIntervalSchema } from "@/utils/schema.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+describe(
+  "computeRepeatDelay",
+  () => {
+     test(
+       "uses the same delay for fixed intervals",
+       () => {
+          const interval = RepeatIntervalSchema.parse("1m");
+
+          expect(computeRepeatDelay(
+            interval,
+            1
+          )).toBe(60_000);
+          expect(computeRepeatDelay(
+            interval,
+            5
+          )).toBe(60_000);
+       }
+     );
+
+     test(
+       "grows the delay by the strategy",
+       () => {
+          const exponential = RepeatIntervalSchema.parse({
+             strategy: "exponential",
+             base: 1_000
+          });
+          const linear = RepeatIntervalSchema.parse({
+             strategy: "linear",
+             base: "1s"
+          });
+
+          expect([ 1, 2, 3, 4 ].map(attempt => computeRepeatDelay(
+            exponential,
+            attempt
+          ))).toEqual([ 1_000, 2_000, 4_000, 8_000 ]);
+          expect([ 1, 2, 3, 4 ].map(attempt => computeRepeatDelay(
+            linear,
+            attempt
+          ))).toEqual([ 1_000, 2_000, 3_000, 4_000 ]);
+       }
+     );
+
+     test(
+       "caps the delay at the max",
+       () => {
+          const interval = RepeatIntervalSchema.parse({
+             strategy: "exponential",
+             base: "1s",
+             max: "5s"
+          });
+
+          expect(computeRepeatDelay(
+            interval,
+            10
+          )).toBe(5_000);
+       }
+     );
+
+     test(
+       "keeps the jitter within its fraction of the delay",
+       () => {
+          const interval = RepeatIntervalSchema.parse({
+             base: 10_000,
+             jitter: 0.1
+          });
+
+          for (let i = 0; i < 100; i++) {
+             const delay = computeRepeatDelay(
+               interval,
+               1
+             );
+             expect(delay).toBeGreaterThanOrEqual(9_000);
+             expect(delay).toBeLessThanOrEqual(11_000);
+          }
+       }
+     );
+  }
+);
+
+describe(
+  "serializeError",
+  () => {
+     test(
+       "keeps the name, message & custom fields of errors",
+       () => {
+          const error = Object.assign(
+            new TypeError("Bad request"),
+            {
+               statusCode: 400,
+               details: { field: "email" }
+            }
+          );
+
+          const serialized = serializeError(error);
+          expect(serialized.name).toBe("TypeError");
+          expect(serialized.message).toBe("Bad request");
+          expect(serialized.stack).toBeString();
+          expect(serialized.cause).toBeNull();
+          expect(serialized.fields).toEqual({
+             statusCode: 400,
+             details: { field: "email" }
+          });
+       }
+     );
+
+     test(
+       "turns values that aren't errors into NonError",
+       () => {
+          expect(serializeError("failed")).toEqual({
+             name: "NonError",
+             message: "failed",
+             fields: {}
+          });
+          expect(serializeError({ code: 1 }).message).toBe("{\"code\":1}");
+          expect(serializeError(undefined).message).toBe("undefined");
+       }
+     );
+
+     test(
+       "follows the cause chain",
+       () => {
+          const error = new Error(
+            "Outer",
+            { cause: new Error("Inner") }
+          );
+
+          const serialized = serializeError(error);
+          expect(serialized.cause?.message).toBe("Inner");
+          expect(serialized.cause?.cause).toBeNull();
+       }
+     );
+
+     test(
+       "stops following the cause chain after a few levels",
+       () => {
+          const error: Error & { cause?: unknown } = new Error("Cyclic");
+          error.cause = error;
+
+          let depth = 0;
+          let current = serializeError(error).cause;
+          while (current) {
+             depth++;
+             current = current.cause;
+          }
+          expect(depth).toBe(5);
+       }
+     );
+
+     test(
+       "stringifies fields that can't be serialized",
+       () => {
+          const error = Object.assign(
+            new Error("Big"),
+            { amount: 10n }
+          );
+
+          expect(serializeError(error).fields.amount).toBe("10");
+       }
+     );
+  }
+);
@@ -0,0 +1,146 @@
+import { ExecutionContext } from "@/execution/ctx.ts";
+import {
+   ActiveJobExecutor,
+   ExecutorFn
+} from "@/execution/executor.ts";
+import { JobCancellation } from "@/execution/job-state.ts";
+import { ActiveJob } from "@/execution/job.ts";
+import { z } from "zod";
+
+export type HarnessOptions = {
+   handler: ExecutorFn<any>;
+   /**
+    * The job's hash as a previous run left it, to resume from
+    */
+   hash?: Map<string, string>;
+   attempts?: number;
+   attemptsMade?: number;
+   strict?: boolean;
+};
+
+/**
+ * Runs a workflow handler through the real executor, with the workflow, its redis connection & the BullMQ job
+ * faked in memory
+ */
+export const createHarness = (options: HarnessOptions) => {
+   const hash = options.hash ?? new Map<string, string>();
+   const cancellations = new Map<string, JobCancellation>();
+   /**
+    * Delays the job was moved to delayed for (ms)
+    */
+   const delays: number[] = [];
+
+   const connection = {
+      eval: async (
+        _script: string,
+        _keys: number,
+        _key: string,
+        ...args: string[]
+      ) => {
+         for (let index = 0; index < args.length; index += 2) {
+            hash.set(
+              args[index],
+              args[index + 1]
+            );
+         }
+         return 1;
+      },
+      hget: async (
+        _key: string,
+        field: string
+      ) => hash.get(field) ?? null,
+      hgetall: async () => Object.fromEntries(hash)
+   };
+
+   const workflow = {
+      __id: "orders",
+      __version: 1,
+      __schema: z.any(),
+      __strict: options.strict ?? false,
+      __deadLetter: false,
+      __onFailure: undefined,
+      __client: undefined,
+      __isFailureJob: () => false,
+      __getHandler: () => options.handler,
+      __checkScheduledRun: async () => null,
+      __releaseScheduleLock: async () => undefined,
+      __getCancellation: async (id: string) => cancellations.get(id) ?? null,
+      __clearCancellation: async (id: string) => {
+         cancellations.delete(id);
+      },
+      getConnection: () => connection,
+      getClient: () => (
+        {
+           __events: {
+              unregister: async () => undefined
+           }
+        }
+      ),
+      getDefaultJobOptions: () => (
+        {}
+      ),
+      __wrapper: {
+         __getBullQueue: () => (
+           { toKey: (id: string) => `bull:orders:${ id }` }
+         ),
+         __rateLimit: async () => undefined
+      }
+   };
+
+   const bullJob = {
+      id: "1",
+      data: hash.has("data") ? JSON.parse(hash.get("data")!) : {},
+      opts: {
+         attempts: options.attempts ?? 1
+      },
+      attemptsMade: options.attemptsMade ?? 0,
+      progress: 0,
+      log: async () => 0,
+      updateProgress: async () => undefined,
+      changePriority: async () => undefined,
+      moveToDelayed: async (timestamp: number) => {
+         delays.push(timestamp - Date.now());
+      }
+   };
+
+   /**
+    * Runs the job once, like a worker picking it up
+    */
+   const execute = async () => {
+      const job = new ActiveJob(
+        workflow as any,
+        { bullJob: bullJob as any }
+      );
+      const ctx = new ExecutionContext({ workflow: workflow as any });
+      const executor = new ActiveJobExecutor({
+         job,
+         ctx,
+         workflow: workflow as any
+      });
+
+      await executor.init();
+      return executor.execute();
+   };
+
+   return {
+      execute,
+      hash,
+      cancellations,
+      delays,
+      bullJob,
+      /**
+       * The stored state of a step
+       */
+      step: (stepId: string) => {
+         const raw = hash.get(`oq:step:${ stepId }`);
+         return raw ? JSON.parse(raw) : undefined;
+      },
+      /**
+       * Runs the job again, like BullMQ does after a failed attempt or once it's no longer delayed
+       */
+      retry: () => {
+         bullJob.data = JSON.parse(hash.get("data")!);
+         return execute();
+      }
+   };
+};
@@ -0,0 +1,133 @@
+import { JobStateManager } from "@/execution/job-state.ts";
+import { OpenQueue } from "@/OpenQueue.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+import { z } from "zod";
+
+/**
+ * A parent & a child workflow of one client, recording which parent jobs get promoted & which map results are stored
+ */
+const createWorkflows = () => {
+   const parent = OpenQueue.workflow({
+      id: "import",
+      schema: z.object({}),
+      fn: async () => null
+   });
+   const child = OpenQueue.workflow({
+      id: "import-entity",
+      schema: z.object({}),
+      fn: async () => null
+   });
+   const client = {
+      __workflows: {
+         import: parent,
+         "import-entity": child
+      }
+   } as any;
+   parent.__client = client;
+   child.__client = client;
+
+   const promoted: string[] = [];
+   const results: Array<{
+      jobId: string;
+      stepId: string;
+      index: number;
+      status: string;
+   }> = [];
+   parent.__promoteJob = async id => {
+      promoted.push(id);
+      return true;
+   };
+   parent.__getMapResults = (
+     jobId,
+     stepId
+   ) => (
+     {
+        recordJob: async (
+          index: number,
+          _bullJob: any,
+          status: string
+        ) => {
+           results.push({
+              jobId,
+              stepId,
+              index,
+              status
+           });
+        }
+     }
+   ) as any;
+
+   return {
+      child,
+      promoted,
+      results
+   };
+};
+
+const childJob = (invocation: Record<string, unknown>) => (
+  {
+     id: "child-1",
+     returnvalue: { imported: true },
+     data: JobStateManager.prepareData(
+       { entityId: "1" },
+       [ {
+          fnId: "import",
+          jobId: "parent-1",
+          stepId: "import-entities",
+          ...invocation
+       } ]
+     ).data
+  }
+) as any;
+
+describe(
+  "resuming invokers",
+  () => {
+     test(
+       "promotes the job that invoked the finished job",
+       async () => {
+          const {
+             child,
+             promoted,
+             results
+          } = createWorkflows();
+
+          await child.__resumeInvokers(
+            childJob({}),
+            "completed"
+          );
+
+          expect(promoted).toEqual([ "parent-1" ]);
+          expect(results).toEqual([]);
+       }
+     );
+
+     test(
+       "stores the result of a map child & promotes the job",
+       async () => {
+          const {
+             child,
+             promoted,
+             results
+          } = createWorkflows();
+
+          await child.__resumeInvokers(
+            childJob({ index: 4 }),
+            "failed"
+          );
+
+          expect(results).toEqual([ {
+             jobId: "parent-1",
+             stepId: "import-entities",
+             index: 4,
+             status: "failed"
+          } ]);
+          expect(promoted).toEqual([ "parent-1" ]);
+       }
+     );
+  }
+);
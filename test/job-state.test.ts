@@ -0,0 +1,249 @@
+import {
+   JobStateManager,
+   StepState
+} from "@/execution/job-state.ts";
+import {
+   beforeEach,
+   describe,
+   expect,
+   test
+} from "bun:test";
+import { z } from "zod";
+
+/**
+ * The job's hash, as the redis connection of the stubbed workflow sees it
+ */
+let hash: Map<string, string>;
+/**
+ * The fields set by each write to the job's hash
+ */
+let writes: string[][];
+
+const connection = {
+   eval: async (
+     _script: string,
+     _keys: number,
+     _key: string,
+     ...args: string[]
+   ) => {
+      const fields: string[] = [];
+      for (let index = 0; index < args.length; index += 2) {
+         hash.set(
+           args[index],
+           args[index + 1]
+         );
+         fields.push(args[index]);
+      }
+      writes.push(fields);
+      return 1;
+   },
+   hget: async (
+     _key: string,
+     field: string
+   ) => hash.get(field) ?? null,
+   hgetall: async () => Object.fromEntries(hash)
+};
+
+const workflow = {
+   __schema: z.object({ orderId: z.string() }),
+   __isFailureJob: () => false,
+   getConnection: () => connection,
+   __wrapper: {
+      __getBullQueue: () => (
+        { toKey: (id: string) => `bull:orders:${ id }` }
+      )
+   }
+};
+
+const storedStep = (result: string): StepState => (
+  {
+     type: "run",
+     status: "completed",
+     result,
+     error: null,
+     metrics: {
+        attempts: 1
+     }
+  }
+);
+
+const createState = async (data: any = { orderId: "1" }) => {
+   return new JobStateManager(
+     workflow as any,
+     {
+        id: "1",
+        data
+     } as any
+   ).init();
+};
+
+beforeEach(() => {
+   hash = new Map();
+   writes = [];
+});
+
+describe(
+  "JobStateManager writes",
+  () => {
+     test(
+       "writes the prepared data of a new job",
+       async () => {
+          const state = await createState();
+
+          expect(writes).toEqual([ [ "data" ] ]);
+          expect(JSON.parse(hash.get("data")!).__source).toEqual({ orderId: "1" });
+          expect(state.__writtenData).toBe(hash.get("data")!);
+       }
+     );
+
+     test(
+       "skips the write when nothing changed",
+       async () => {
+          const state = await createState();
+          writes = [];
+
+          await state.updateData();
+
+          expect(writes).toEqual([]);
+       }
+     );
+
+     test(
+       "only writes the steps that changed, without the data when it's unchanged",
+       async () => {
+          const state = await createState();
+          const first = await state.forStep(
+            "charge",
+            "run"
+          );
+          const second = await state.forStep(
+            "ship",
+            "run"
+          );
+          await state.updateData();
+          writes = [];
+
+          second.complete("shipped");
+          await state.updateData();
+          expect(writes).toEqual([ [ "oq:step:ship" ] ]);
+
+          first.complete("charged");
+          await state.updateData();
+          expect(writes[1]).toEqual([ "oq:step:charge" ]);
+       }
+     );
+
+     test(
+       "writes the data when it changed",
+       async () => {
+          const state = await createState();
+          await state.forStep(
+            "charge",
+            "run"
+          );
+          await state.updateData();
+          writes = [];
+
+          state.data!.__patches["new-pricing"] = true;
+          await state.updateData();
+
+          expect(writes).toEqual([ [ "data" ] ]);
+          expect(JSON.parse(hash.get("data")!).__patches).toEqual({ "new-pricing": true });
+       }
+     );
+
+     test(
+       "keeps step states out of the job data",
+       async () => {
+          const state = await createState();
+          const step = await state.forStep(
+            "charge",
+            "run"
+          );
+          step.complete("charged");
+          await state.updateData();
+
+          expect(JSON.parse(hash.get("data")!).__steps).toEqual({});
+          expect(JSON.parse(hash.get("oq:step:charge")!).result).toBe("charged");
+       }
+     );
+  }
+);
+
+describe(
+  "JobStateManager step loading",
+  () => {
+     const legacyData = {
+        ...JobStateManager.prepareData({ orderId: "1" }).data,
+        __steps: {
+           charge: storedStep("legacy charge"),
+           ship: storedStep("legacy ship")
+        },
+        __stepOrder: [ "charge", "ship" ]
+     };
+
+     test(
+       "prefers the step's field in the hash over the legacy steps in the data",
+       async () => {
+          hash.set(
+            "oq:step:charge",
+            JSON.stringify(storedStep("charged"))
+          );
+          const state = await createState(legacyData);
+
+          expect((await state.__loadStep("charge"))?.result).toBe("charged");
+          expect((await state.__loadStep("ship"))?.result).toBe("legacy ship");
+          expect(await state.__loadStep("refund")).toBeUndefined();
+       }
+     );
+
+     test(
+       "doesn't write a loaded step again until it changed",
+       async () => {
+          hash.set(
+            "oq:step:charge",
+            JSON.stringify(storedStep("charged"))
+          );
+          const state = await createState(legacyData);
+          await state.forStep(
+            "charge",
+            "run"
+          );
+
+          await state.updateData();
+
+          expect(writes).toEqual([]);
+       }
+     );
+
+     test(
+       "hydrates the legacy steps, the stored steps & the steps of this run together",
+       async () => {
+          hash.set(
+            "oq:step:charge",
+            JSON.stringify(storedStep("charged"))
+          );
+          hash.set(
+            "oq:step:notify",
+            JSON.stringify(storedStep("notified"))
+          );
+          const state = await createState(legacyData);
+          const refund = await state.forStep(
+            "refund",
+            "run"
+          );
+          refund.complete("refunded");
+
+          const steps = await state.hydrateSteps();
+
+          expect(Object.fromEntries(Object.entries(steps)
+            .map(([ stepId, step ]) => [ stepId, step.result ]))).toEqual({
+             charge: "charged",
+             ship: "legacy ship",
+             notify: "notified",
+             refund: "refunded"
+          });
+       }
+     );
+  }
+);
@@ -0,0 +1,29 @@
+import { createHarness } from "./harness.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+import { ZodError } from "zod";
+
+describe(
+  "ctx.map",
+  () => {
+     test.each([ 0, -1, 1.5 ])(
+       "rejects a concurrency of %p",
+       async concurrency => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.map({
+                id: "process-entities",
+                workflow: { __id: "process-entity" } as any,
+                items: [ { entityId: "1" } ],
+                concurrency
+             })
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(ZodError);
+          expect(harness.step("process-entities")).toBeUndefined();
+       }
+     );
+  }
+);
@@ -0,0 +1,126 @@
+import { RetryAfterError } from "@/execution/errors.ts";
+import { createHarness } from "./harness.ts";
+import { DelayedError } from "bullmq";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+describe(
+  "ctx.parallel",
+  () => {
+     test(
+       "resolves with the results in order",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.parallel([
+                {
+                   id: "a",
+                   run: async () => "A"
+                },
+                {
+                   id: "b",
+                   run: async () => "B"
+                }
+             ])
+          });
+
+          expect((await harness.execute()).map((step: any) => step.result)).toEqual([ "A", "B" ]);
+       }
+     );
+
+     test(
+       "delays the job once, for the earliest retry of its steps",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.parallel([
+                {
+                   id: "a",
+                   run: async () => {
+                      throw new RetryAfterError(60_000);
+                   }
+                },
+                {
+                   id: "b",
+                   run: async () => {
+                      throw new RetryAfterError(30_000);
+                   }
+                },
+                {
+                   id: "c",
+                   run: async () => "C"
+                }
+             ])
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(DelayedError);
+          expect(harness.delays).toHaveLength(1);
+          expect(harness.delays[0]).toBeGreaterThan(29_000);
+          expect(harness.delays[0]).toBeLessThanOrEqual(30_000);
+          expect(harness.step("a").status).toBe("delayed");
+          expect(harness.step("b").status).toBe("delayed");
+          expect(harness.step("c").status).toBe("completed");
+       }
+     );
+
+     test(
+       "fails without delaying the job when a step fails for good",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.parallel([
+                {
+                   id: "a",
+                   run: async () => {
+                      throw new RetryAfterError(60_000);
+                   }
+                },
+                {
+                   id: "b",
+                   run: async () => {
+                      throw new Error("Boom");
+                   }
+                }
+             ])
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Boom");
+          expect(harness.delays).toEqual([]);
+       }
+     );
+
+     test(
+       "retries only the steps that didn't complete once resumed",
+       async () => {
+          const runs: string[] = [];
+          let delayed = false;
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.parallel([
+                {
+                   id: "a",
+                   run: async () => {
+                      runs.push("a");
+                      return "A";
+                   }
+                },
+                {
+                   id: "b",
+                   run: async () => {
+                      runs.push("b");
+                      if (!delayed) {
+                         delayed = true;
+                         throw new RetryAfterError(60_000);
+                      }
+                      return "B";
+                   }
+                }
+             ])
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(DelayedError);
+          expect((await harness.retry()).map((step: any) => step.ran)).toEqual([ false, true ]);
+          expect(runs).toEqual([ "a", "b", "b" ]);
+       }
+     );
+  }
+);
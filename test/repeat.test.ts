@@ -0,0 +1,70 @@
+import { createHarness } from "./harness.ts";
+import { DelayedError } from "bullmq";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+describe(
+  "ctx.repeat",
+  () => {
+     test(
+       "completes with the first truthy result",
+       async () => {
+          let attempt = 0;
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.repeat({
+                id: "poll",
+                limit: 5,
+                run: async () => ++attempt === 3 && "ready"
+             })
+          });
+
+          expect(await harness.execute()).toBe("ready");
+          expect(attempt).toBe(3);
+       }
+     );
+
+     test(
+       "delays the job between attempts",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.repeat({
+                id: "poll",
+                limit: 5,
+                every: "1m",
+                run: async () => false
+             })
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(DelayedError);
+          expect(harness.delays).toHaveLength(1);
+          expect(harness.step("poll").result.attempt).toBe(1);
+       }
+     );
+
+     test(
+       "only keeps the most recent falsy results",
+       async () => {
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.repeat({
+                id: "poll",
+                limit: 100,
+                every: "1s",
+                run: async () => 0
+             })
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(DelayedError);
+          for (let run = 1; run < 60; run++) {
+             await expect(harness.retry()).rejects.toBeInstanceOf(DelayedError);
+          }
+
+          const repeatState = harness.step("poll").result;
+          expect(repeatState.attempt).toBe(60);
+          expect(repeatState.history).toHaveLength(50);
+       }
+     );
+  }
+);
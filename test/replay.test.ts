@@ -0,0 +1,286 @@
+import { NonDeterminismError } from "@/execution/errors.ts";
+import { StepExecutor } from "@/execution/executor.ts";
+import {
+   JobStateManager,
+   StepState
+} from "@/execution/job-state.ts";
+import { stepLogScope } from "@/execution/logger.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+/**
+ * A job state as a worker would have it after a previous run, with the step states it'd load from the job's hash
+ */
+const createState = (
+  stepOrder: string[] = [],
+  stored: Record<string, StepState> = {}
+) => {
+   const state = new JobStateManager(
+     {} as any,
+     { id: "1" } as any
+   );
+   state.data = JobStateManager.prepareData({ userId: "1" }).data;
+   state.data.__stepOrder = [ ...stepOrder ];
+   state.__loadStep = async stepId => stored[stepId];
+
+   return state;
+};
+
+const completedStep = (type: StepState["type"] = "run"): StepState => (
+  {
+     type,
+     status: "completed",
+     result: "done",
+     error: null,
+     metrics: {
+        attempts: 1
+     }
+  }
+);
+
+describe(
+  "step replay",
+  () => {
+     test(
+       "records the order steps first run in",
+       async () => {
+          const state = createState();
+          const executor = new StepExecutor({ state } as any);
+
+          await executor.__forStep(
+            "a",
+            "run"
+          );
+          await executor.__forStep(
+            "b",
+            "sleep"
+          );
+
+          expect(state.data!.__stepOrder).toEqual([ "a", "b" ]);
+       }
+     );
+
+     test(
+       "replays the stored state of completed steps",
+       async () => {
+          const state = createState(
+            [ "a" ],
+            { a: completedStep() }
+          );
+
+          const step = await new StepExecutor({ state } as any).__forStep(
+            "a",
+            "run"
+          );
+
+          expect(step.data.status).toBe("completed");
+          expect(step.data.result).toBe("done");
+       }
+     );
+
+     test(
+       "continues recording after the replayed steps",
+       async () => {
+          const state = createState(
+            [ "a" ],
+            { a: completedStep() }
+          );
+          const executor = new StepExecutor({ state } as any);
+
+          await executor.__forStep(
+            "a",
+            "run"
+          );
+          await executor.__forStep(
+            "b",
+            "run"
+          );
+
+          expect(state.data!.__stepOrder).toEqual([ "a", "b" ]);
+          executor.__checkAllStepsReplayed();
+       }
+     );
+  }
+);
+
+describe(
+  "divergence detection",
+  () => {
+     test(
+       "fails on a step id used twice",
+       async () => {
+          const state = createState();
+          await state.forStep(
+            "a",
+            "run"
+          );
+
+          await expect(state.forStep(
+            "a",
+            "run"
+          )).rejects.toBeInstanceOf(NonDeterminismError);
+       }
+     );
+
+     test(
+       "fails on a step replayed as another type",
+       async () => {
+          const state = createState(
+            [ "a" ],
+            { a: completedStep("sleep") }
+          );
+
+          await expect(state.forStep(
+            "a",
+            "run"
+          )).rejects.toBeInstanceOf(NonDeterminismError);
+       }
+     );
+
+     test(
+       "fails on steps replayed in another order",
+       async () => {
+          const state = createState(
+            [ "a", "b" ],
+            {
+               a: completedStep(),
+               b: completedStep()
+            }
+          );
+
+          const error = await new StepExecutor({ state } as any).__forStep(
+            "b",
+            "run"
+          )
+            .catch(e => e);
+
+          expect(error).toBeInstanceOf(NonDeterminismError);
+          expect(error.stepId).toBe("b");
+       }
+     );
+
+     test(
+       "fails strict runs that finish without replaying every step",
+       async () => {
+          const state = createState(
+            [ "a", "b" ],
+            {
+               a: completedStep(),
+               b: completedStep()
+            }
+          );
+          const executor = new StepExecutor({ state } as any);
+          await executor.__forStep(
+            "a",
+            "run"
+          );
+
+          expect(() => executor.__checkAllStepsReplayed()).toThrow(NonDeterminismError);
+       }
+     );
+  }
+);
+
+describe(
+  "patched",
+  () => {
+     test(
+       "takes the new path for jobs that haven't run past it",
+       () => {
+          const executor = new StepExecutor({ state: createState() } as any);
+
+          expect(executor.patched("new-pricing")).toBe(true);
+       }
+     );
+
+     test(
+       "keeps the old path for jobs that already ran past it",
+       async () => {
+          const state = createState(
+            [ "a", "b" ],
+            {
+               a: completedStep(),
+               b: completedStep()
+            }
+          );
+          const executor = new StepExecutor({ state } as any);
+          await executor.__forStep(
+            "a",
+            "run"
+          );
+
+          expect(executor.patched("new-pricing")).toBe(false);
+          await executor.__forStep(
+            "b",
+            "run"
+          );
+          expect(executor.patched("new-pricing")).toBe(false);
+       }
+     );
+  }
+);
+
+describe(
+  "record",
+  () => {
+     test(
+       "returns the recorded values on replay, by call order",
+       () => {
+          const first = createState();
+          const values = [
+             first.record(
+               "random",
+               () => 0.25
+             ),
+             first.record(
+               "random",
+               () => 0.75
+             )
+          ];
+
+          const replay = createState();
+          replay.data = first.data;
+
+          expect([
+             replay.record(
+               "random",
+               () => 0
+             ),
+             replay.record(
+               "random",
+               () => 0
+             )
+          ]).toEqual(values);
+       }
+     );
+
+     test(
+       "doesn't record inside a step's run",
+       () => {
+          const state = createState();
+
+          const inside = stepLogScope.run(
+            {
+               stepId: "a",
+               attempt: 1
+            },
+            () => state.record(
+              "now",
+              () => 1
+            )
+          );
+
+          expect(inside).toBe(1);
+          expect(state.data!.__recorded).toEqual({});
+          expect(state.record(
+            "now",
+            () => 2
+          )).toBe(2);
+          expect(state.data!.__recorded).toEqual({ "now-0": 2 });
+       }
+     );
+  }
+);
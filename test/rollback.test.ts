@@ -0,0 +1,124 @@
+import { createHarness } from "./harness.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+/**
+ * A handler booking a trip, which fails at its last step. Rollbacks are recorded, and `onRollback` runs before each.
+ */
+const bookTrip = (
+  rollbacks: string[],
+  onRollback: (stepId: string) => void = () => undefined
+) => async ({ ctx }: any) => {
+   for (const stepId of [ "book-flight", "book-hotel", "book-car" ]) {
+      await ctx.run({
+         id: stepId,
+         run: async () => `${ stepId }-ref`,
+         rollback: async (result: string) => {
+            onRollback(stepId);
+            rollbacks.push(result);
+         }
+      });
+   }
+
+   await ctx.run({
+      id: "charge-card",
+      run: async () => {
+         throw new Error("Card declined");
+      }
+   });
+};
+
+describe(
+  "rollback",
+  () => {
+     test(
+       "rolls back completed steps in reverse order once the job fails for good",
+       async () => {
+          const rollbacks: string[] = [];
+          const harness = createHarness({
+             handler: bookTrip(rollbacks)
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Card declined");
+          expect(rollbacks).toEqual([ "book-car-ref", "book-hotel-ref", "book-flight-ref" ]);
+          expect(harness.step("book-flight").rollback.status).toBe("completed");
+          expect(JSON.parse(harness.hash.get("data")!).__rollback.status).toBe("completed");
+       }
+     );
+
+     test(
+       "doesn't roll back before the last attempt",
+       async () => {
+          const rollbacks: string[] = [];
+          const harness = createHarness({
+             handler: bookTrip(rollbacks),
+             attempts: 3
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Card declined");
+          expect(rollbacks).toEqual([]);
+       }
+     );
+
+     test(
+       "continues an interrupted rollback without running finished rollbacks again",
+       async () => {
+          const rollbacks: string[] = [];
+          let interrupted: Map<string, string> | null = null;
+          const harness = createHarness({
+             handler: bookTrip(
+               rollbacks,
+               stepId => {
+                  // The worker crashes while rolling back the hotel, after the car was rolled back
+                  if (stepId === "book-hotel" && !interrupted) {
+                     interrupted = new Map(harness.hash);
+                  }
+               }
+             )
+          });
+          await expect(harness.execute()).rejects.toThrow("Card declined");
+
+          rollbacks.length = 0;
+          const resumed = createHarness({
+             handler: bookTrip(rollbacks),
+             hash: interrupted!,
+             attempts: 2,
+             attemptsMade: 1
+          });
+
+          await expect(resumed.execute()).rejects.toThrow("rolled back");
+          expect(rollbacks).toEqual([ "book-hotel-ref", "book-flight-ref" ]);
+          expect(JSON.parse(resumed.hash.get("data")!).__rollback).toMatchObject({
+             status: "completed",
+             error: {
+                message: "Card declined"
+             }
+          });
+       }
+     );
+
+     test(
+       "marks a rollback that throws as failed, and rolls back the other steps",
+       async () => {
+          const rollbacks: string[] = [];
+          const harness = createHarness({
+             handler: bookTrip(
+               rollbacks,
+               stepId => {
+                  if (stepId === "book-hotel") {
+                     throw new Error("Hotel API is down");
+                  }
+               }
+             )
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Card declined");
+          expect(rollbacks).toEqual([ "book-car-ref", "book-flight-ref" ]);
+          expect(harness.step("book-hotel").rollback.status).toBe("failed");
+       }
+     );
+  }
+);
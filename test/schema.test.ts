@@ -0,0 +1,77 @@
+import {
+   parseDuration,
+   parseRetryAfter
+} from "@/utils/schema.ts";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+describe(
+  "parseDuration",
+  () => {
+     test(
+       "parses single units",
+       () => {
+          expect(parseDuration("500ms")).toBe(500);
+          expect(parseDuration("30s")).toBe(30_000);
+          expect(parseDuration("15m")).toBe(900_000);
+          expect(parseDuration("1d")).toBe(86_400_000);
+          expect(parseDuration("1w")).toBe(604_800_000);
+       }
+     );
+
+     test(
+       "adds up combined units & fractions",
+       () => {
+          expect(parseDuration("2h30m")).toBe(9_000_000);
+          expect(parseDuration("1m 30s")).toBe(90_000);
+          expect(parseDuration("1.5s")).toBe(1_500);
+       }
+     );
+
+     test(
+       "returns null for invalid durations",
+       () => {
+          expect(parseDuration("")).toBeNull();
+          expect(parseDuration("15")).toBeNull();
+          expect(parseDuration("15x")).toBeNull();
+          expect(parseDuration("m15")).toBeNull();
+          expect(parseDuration("-5m")).toBeNull();
+       }
+     );
+  }
+);
+
+describe(
+  "parseRetryAfter",
+  () => {
+     test(
+       "parses seconds",
+       () => {
+          expect(parseRetryAfter("120")).toBe(120_000);
+          expect(parseRetryAfter(" 0 ")).toBe(0);
+       }
+     );
+
+     test(
+       "parses HTTP dates into the delay until then",
+       () => {
+          const delay = parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())!;
+
+          expect(delay).toBeGreaterThan(58_000);
+          expect(delay).toBeLessThanOrEqual(60_000);
+          expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT")).toBe(0);
+       }
+     );
+
+     test(
+       "returns null for invalid values",
+       () => {
+          expect(parseRetryAfter("")).toBeNull();
+          expect(parseRetryAfter("soon")).toBeNull();
+       }
+     );
+  }
+);
@@ -0,0 +1,146 @@
+import { createHarness } from "./harness.ts";
+import { DelayedError } from "bullmq";
+import {
+   describe,
+   expect,
+   test
+} from "bun:test";
+
+/**
+ * A step that fails the given number of times before it succeeds
+ */
+const flaky = (failures: number) => {
+   let calls = 0;
+   return {
+      get calls () {
+         return calls;
+      },
+      run: async () => {
+         calls++;
+         if (calls <= failures) {
+            throw new Error(`Attempt ${ calls } failed`);
+         }
+         return "synced";
+      }
+   };
+};
+
+describe(
+  "step retries",
+  () => {
+     test(
+       "retries the step in-process until it succeeds",
+       async () => {
+          const step = flaky(2);
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.run({
+                id: "sync",
+                run: step.run,
+                retry: {
+                   attempts: 3,
+                   delay: 1
+                }
+             })
+          });
+
+          expect((await harness.execute()).result).toBe("synced");
+          expect(step.calls).toBe(3);
+          expect(harness.step("sync").metrics.attempts).toBe(3);
+          expect(JSON.parse(harness.hash.get("data")!).__errors.map((error: any) => error.attempt)).toEqual([ 1, 2 ]);
+       }
+     );
+
+     test(
+       "fails the step once its attempts are used up",
+       async () => {
+          const step = flaky(5);
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.run({
+                id: "sync",
+                run: step.run,
+                retry: {
+                   attempts: 2,
+                   delay: 1
+                }
+             })
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Attempt 2 failed");
+          expect(step.calls).toBe(2);
+          expect(harness.step("sync").status).toBe("failed");
+       }
+     );
+
+     test(
+       "only retries errors accepted by retryIf",
+       async () => {
+          const step = flaky(5);
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.run({
+                id: "sync",
+                run: step.run,
+                retry: {
+                   attempts: 3,
+                   delay: 1,
+                   retryIf: (
+                     _error,
+                     attempt
+                   ) => attempt < 2
+                }
+             })
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Attempt 2 failed");
+          expect(step.calls).toBe(2);
+       }
+     );
+
+     test(
+       "delays the job for long retry delays, and continues counting attempts once resumed",
+       async () => {
+          const step = flaky(1);
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.run({
+                id: "sync",
+                run: step.run,
+                retry: {
+                   attempts: 3,
+                   delay: "1m"
+                }
+             })
+          });
+
+          await expect(harness.execute()).rejects.toBeInstanceOf(DelayedError);
+          expect(harness.delays).toHaveLength(1);
+          expect(harness.step("sync").status).toBe("delayed");
+
+          expect((await harness.retry()).result).toBe("synced");
+          expect(harness.step("sync").metrics.attempts).toBe(2);
+       }
+     );
+
+     test(
+       "gives the step a fresh set of attempts when the job is retried",
+       async () => {
+          const step = flaky(2);
+          const harness = createHarness({
+             handler: async ({ ctx }) => ctx.run({
+                id: "sync",
+                run: step.run,
+                retry: {
+                   attempts: 2,
+                   delay: 1
+                }
+             }),
+             attempts: 2
+          });
+
+          await expect(harness.execute()).rejects.toThrow("Attempt 2 failed");
+          harness.bullJob.attemptsMade++;
+
+          expect((await harness.retry()).result).toBe("synced");
+          expect(harness.step("sync").metrics.attempts).toBe(1);
+       }
+     );
+  }
+);